@@ -0,0 +1 @@
+export * from './jwt_authenticator.ts';
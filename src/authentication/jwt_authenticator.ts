@@ -0,0 +1,306 @@
+import {
+    AuthenticatorInterface,
+    NotAuthenticatedError,
+    Principal,
+    ServerRequestAuthentication,
+} from '../types/index.ts';
+
+export type JWTAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+/**
+ * Key verifying the tokens signed with the algorithm. HS256 keys are the shared secret,
+ * RS256 and ES256 keys are a PEM encoded public key or a JWK
+ */
+export type JWTKey = {
+    kid?: string;
+    algorithm: JWTAlgorithm;
+    key: string | JsonWebKey;
+};
+
+export type JWTAuthenticatorOptions = {
+    keys?: JWTKey[];
+    /**
+     * Path of a JWKS file read once on the first authentication
+     */
+    jwksFile?: string;
+    /**
+     * Accepted [iss] claims, any issuer is accepted when missing
+     */
+    issuer?: string | string[];
+    /**
+     * Accepted [aud] claims, any audience is accepted when missing
+     */
+    audience?: string | string[];
+    /**
+     * Seconds of clock difference tolerated when checking [exp] and [nbf]
+     */
+    clockTolerance?: number;
+};
+
+type JWTHeader = { alg?: string; kid?: string; typ?: string };
+
+const importParameters: Record<
+    JWTAlgorithm,
+    RsaHashedImportParams | EcKeyImportParams | HmacImportParams
+> = {
+    HS256: { name: 'HMAC', hash: 'SHA-256' },
+    RS256: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    ES256: { name: 'ECDSA', namedCurve: 'P-256' },
+};
+
+const verifyParameters: Record<
+    JWTAlgorithm,
+    AlgorithmIdentifier | EcdsaParams
+> = {
+    HS256: { name: 'HMAC' },
+    RS256: { name: 'RSASSA-PKCS1-v1_5' },
+    ES256: { name: 'ECDSA', hash: 'SHA-256' },
+};
+
+/**
+ * Verifies the signature and the time, issuer and audience claims of bearer JWT tokens
+ */
+export class JWTAuthenticator implements AuthenticatorInterface {
+    public scheme = 'bearer';
+
+    private keys?: Promise<
+        { kid?: string; algorithm: JWTAlgorithm; key: CryptoKey }[]
+    >;
+
+    constructor(private options: JWTAuthenticatorOptions) {}
+
+    public async authenticate(
+        authentication: ServerRequestAuthentication,
+    ): Promise<Principal> {
+        if (
+            authentication.token_format !== undefined &&
+            authentication.token_format.toUpperCase() !== 'JWT'
+        ) {
+            throw new NotAuthenticatedError(
+                `The token format [${authentication.token_format}] is not supported.`,
+            );
+        }
+
+        const parts = authentication.token.split('.');
+
+        if (parts.length !== 3) {
+            throw new NotAuthenticatedError('The token is not a valid JWT.');
+        }
+
+        const header = decodeSegment(parts[0]) as JWTHeader;
+        const claims = decodeSegment(parts[1]) as Record<string, unknown>;
+        const algorithm = header.alg as JWTAlgorithm;
+
+        if (!(algorithm in importParameters)) {
+            throw new NotAuthenticatedError(
+                `The token algorithm [${header.alg}] is not supported.`,
+            );
+        }
+
+        const candidates = (await this.loadKeys()).filter((e) =>
+            e.algorithm === algorithm &&
+            (header.kid === undefined || e.kid === undefined ||
+                e.kid === header.kid)
+        );
+
+        const signed = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+        let signature: Uint8Array<ArrayBuffer>;
+
+        try {
+            signature = decodeBase64Url(parts[2]);
+        } catch {
+            throw new NotAuthenticatedError('The token is not a valid JWT.');
+        }
+
+        let verified = false;
+
+        for (const candidate of candidates) {
+            verified = await crypto.subtle.verify(
+                verifyParameters[algorithm],
+                candidate.key,
+                signature,
+                signed,
+            );
+
+            if (verified) {
+                break;
+            }
+        }
+
+        if (!verified) {
+            throw new NotAuthenticatedError(
+                'The token signature is not valid.',
+            );
+        }
+
+        this.checkClaims(claims);
+
+        return {
+            scheme: this.scheme,
+            subject: typeof claims.sub == 'string' ? claims.sub : undefined,
+            roles: toStringList(claims.roles ?? claims.role),
+            scopes: toStringList(claims.scope ?? claims.scp),
+            claims,
+            expiresAt: typeof claims.exp == 'number'
+                ? claims.exp * 1000
+                : undefined,
+        };
+    }
+
+    private checkClaims(claims: Record<string, unknown>) {
+        const now = Date.now() / 1000;
+        const tolerance = this.options.clockTolerance ?? 0;
+
+        if (typeof claims.exp == 'number' && now >= claims.exp + tolerance) {
+            throw new NotAuthenticatedError('The token has expired.');
+        }
+
+        if (typeof claims.nbf == 'number' && now + tolerance < claims.nbf) {
+            throw new NotAuthenticatedError('The token is not valid yet.');
+        }
+
+        if (this.options.issuer !== undefined) {
+            const issuers = ([] as string[]).concat(this.options.issuer);
+
+            if (!issuers.includes(claims.iss as string)) {
+                throw new NotAuthenticatedError(
+                    'The token issuer is not accepted.',
+                );
+            }
+        }
+
+        if (this.options.audience !== undefined) {
+            const audiences = ([] as string[]).concat(this.options.audience);
+            const tokenAudiences = ([] as unknown[]).concat(claims.aud ?? []);
+
+            if (!tokenAudiences.some((e) => audiences.includes(e as string))) {
+                throw new NotAuthenticatedError(
+                    'The token audience is not accepted.',
+                );
+            }
+        }
+    }
+
+    /**
+     * Imports the configured keys and the ones of the JWKS file, only once
+     */
+    private loadKeys() {
+        if (!this.keys) {
+            this.keys = (async () => {
+                const keys = [...(this.options.keys ?? [])];
+
+                if (this.options.jwksFile) {
+                    const jwks = JSON.parse(
+                        await Deno.readTextFile(this.options.jwksFile),
+                    ) as { keys: (JsonWebKey & { kid?: string })[] };
+
+                    for (const jwk of jwks.keys) {
+                        const algorithm = getJwkAlgorithm(jwk);
+
+                        if (algorithm) {
+                            keys.push({ kid: jwk.kid, algorithm, key: jwk });
+                        }
+                    }
+                }
+
+                return await Promise.all(keys.map(async (e) => ({
+                    kid: e.kid,
+                    algorithm: e.algorithm,
+                    key: await importKey(e),
+                })));
+            })();
+
+            // a failed load is retried on the next authentication
+            this.keys.catch(() => this.keys = undefined);
+        }
+
+        return this.keys;
+    }
+}
+
+function importKey(jwtKey: JWTKey): Promise<CryptoKey> {
+    const parameters = importParameters[jwtKey.algorithm];
+
+    if (typeof jwtKey.key != 'string') {
+        return crypto.subtle.importKey('jwk', jwtKey.key, parameters, false, [
+            'verify',
+        ]);
+    }
+
+    if (jwtKey.algorithm === 'HS256') {
+        return crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(jwtKey.key),
+            parameters,
+            false,
+            ['verify'],
+        );
+    }
+
+    const pem = jwtKey.key.replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '')
+        .replace(/\s/g, '');
+
+    return crypto.subtle.importKey(
+        'spki',
+        Uint8Array.from(atob(pem), (e) => e.charCodeAt(0)),
+        parameters,
+        false,
+        ['verify'],
+    );
+}
+
+function getJwkAlgorithm(jwk: JsonWebKey): JWTAlgorithm | undefined {
+    if (jwk.alg) {
+        return jwk.alg in importParameters
+            ? jwk.alg as JWTAlgorithm
+            : undefined;
+    }
+
+    switch (jwk.kty) {
+        case 'oct':
+            return 'HS256';
+        case 'RSA':
+            return 'RS256';
+        case 'EC':
+            return jwk.crv === 'P-256' ? 'ES256' : undefined;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Reads a claim holding a list or a space separated string, like the OAuth [scope] claim
+ */
+function toStringList(claim: unknown): string[] {
+    if (typeof claim == 'string') {
+        return claim.split(' ').filter((e) => e !== '');
+    }
+
+    if (Array.isArray(claim)) {
+        return claim.filter((e) => typeof e == 'string');
+    }
+
+    return [];
+}
+
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+
+    return Uint8Array.from(atob(base64), (e) => e.charCodeAt(0));
+}
+
+function decodeSegment(segment: string): unknown {
+    try {
+        const decoded = JSON.parse(
+            new TextDecoder().decode(decodeBase64Url(segment)),
+        );
+
+        if (typeof decoded != 'object' || decoded === null) {
+            throw new Error('The segment is not an object.');
+        }
+
+        return decoded;
+    } catch {
+        throw new NotAuthenticatedError('The token is not a valid JWT.');
+    }
+}
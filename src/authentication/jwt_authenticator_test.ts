@@ -0,0 +1,344 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { NotAuthenticatedError } from '../types/index.ts';
+import { JWTAlgorithm, JWTAuthenticator } from './jwt_authenticator.ts';
+
+const secret = 'a-shared-secret-of-the-tests';
+
+const signParameters: Record<
+    JWTAlgorithm,
+    AlgorithmIdentifier | EcdsaParams
+> = {
+    HS256: { name: 'HMAC' },
+    RS256: { name: 'RSASSA-PKCS1-v1_5' },
+    ES256: { name: 'ECDSA', hash: 'SHA-256' },
+};
+
+function encodeBase64Url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-')
+        .replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function encodeSegment(value: unknown): string {
+    return encodeBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+/**
+ * Builds a token signed with the key, the header defaults to the one of the algorithm
+ */
+async function sign(
+    algorithm: JWTAlgorithm,
+    key: CryptoKey,
+    claims: Record<string, unknown>,
+    header: Record<string, unknown> = {},
+): Promise<string> {
+    const content = `${
+        encodeSegment({ alg: algorithm, typ: 'JWT', ...header })
+    }.${encodeSegment(claims)}`;
+    const signature = await crypto.subtle.sign(
+        signParameters[algorithm],
+        key,
+        new TextEncoder().encode(content),
+    );
+
+    return `${content}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
+
+function importSecret(): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign'],
+    );
+}
+
+function generateRsaKeys(): Promise<CryptoKeyPair> {
+    return crypto.subtle.generateKey(
+        {
+            name: 'RSASSA-PKCS1-v1_5',
+            modulusLength: 2048,
+            publicExponent: new Uint8Array([1, 0, 1]),
+            hash: 'SHA-256',
+        },
+        true,
+        ['sign', 'verify'],
+    );
+}
+
+function generateEcKeys(): Promise<CryptoKeyPair> {
+    return crypto.subtle.generateKey(
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        true,
+        ['sign', 'verify'],
+    );
+}
+
+async function exportPem(key: CryptoKey): Promise<string> {
+    const spki = new Uint8Array(await crypto.subtle.exportKey('spki', key));
+
+    return `-----BEGIN PUBLIC KEY-----\n${
+        btoa(String.fromCharCode(...spki))
+    }\n-----END PUBLIC KEY-----`;
+}
+
+/**
+ * Replaces the claims of the token, keeping its header and signature
+ */
+function tamper(token: string): string {
+    const [header, _claims, signature] = token.split('.');
+
+    return `${header}.${encodeSegment({ sub: 'admin' })}.${signature}`;
+}
+
+function authenticate(authenticator: JWTAuthenticator, token: string) {
+    return authenticator.authenticate({ scheme: 'bearer', token });
+}
+
+function now(): number {
+    return Math.floor(Date.now() / 1000);
+}
+
+Deno.test('accepts the HS256 tokens signed with the secret', async () => {
+    const authenticator = new JWTAuthenticator({
+        keys: [{ algorithm: 'HS256', key: secret }],
+    });
+    const token = await sign('HS256', await importSecret(), {
+        sub: 'user',
+        roles: ['admin'],
+        scope: 'read write',
+    });
+
+    const principal = await authenticate(authenticator, token);
+
+    assertEquals(principal.subject, 'user');
+    assertEquals(principal.roles, ['admin']);
+    assertEquals(principal.scopes, ['read', 'write']);
+    await assertRejects(
+        () => authenticate(authenticator, tamper(token)),
+        NotAuthenticatedError,
+        'The token signature is not valid.',
+    );
+});
+
+Deno.test('accepts the RS256 tokens signed with the private key', async () => {
+    const { privateKey, publicKey } = await generateRsaKeys();
+    const authenticator = new JWTAuthenticator({
+        keys: [{ algorithm: 'RS256', key: await exportPem(publicKey) }],
+    });
+    const token = await sign('RS256', privateKey, { sub: 'user' });
+
+    assertEquals((await authenticate(authenticator, token)).subject, 'user');
+    await assertRejects(
+        () => authenticate(authenticator, tamper(token)),
+        NotAuthenticatedError,
+        'The token signature is not valid.',
+    );
+});
+
+Deno.test('accepts the ES256 tokens signed with the private key', async () => {
+    const { privateKey, publicKey } = await generateEcKeys();
+    const authenticator = new JWTAuthenticator({
+        keys: [{
+            algorithm: 'ES256',
+            key: await crypto.subtle.exportKey('jwk', publicKey),
+        }],
+    });
+    const token = await sign('ES256', privateKey, { sub: 'user' });
+
+    assertEquals((await authenticate(authenticator, token)).subject, 'user');
+    await assertRejects(
+        () => authenticate(authenticator, tamper(token)),
+        NotAuthenticatedError,
+        'The token signature is not valid.',
+    );
+});
+
+Deno.test('rejects the unsigned tokens', async () => {
+    const authenticator = new JWTAuthenticator({
+        keys: [{ algorithm: 'HS256', key: secret }],
+    });
+    const token = `${encodeSegment({ alg: 'none' })}.${
+        encodeSegment({ sub: 'user' })
+    }.`;
+
+    await assertRejects(
+        () => authenticate(authenticator, token),
+        NotAuthenticatedError,
+        'The token algorithm [none] is not supported.',
+    );
+});
+
+Deno.test('rejects the tokens that are not JWT', async () => {
+    const authenticator = new JWTAuthenticator({
+        keys: [{ algorithm: 'HS256', key: secret }],
+    });
+
+    await assertRejects(
+        () => authenticate(authenticator, 'abc'),
+        NotAuthenticatedError,
+        'The token is not a valid JWT.',
+    );
+    await assertRejects(
+        () =>
+            authenticator.authenticate({
+                scheme: 'bearer',
+                token: 'abc',
+                token_format: 'opaque',
+            }),
+        NotAuthenticatedError,
+        'The token format [opaque] is not supported.',
+    );
+});
+
+Deno.test('only verifies the tokens with the key of their kid', async () => {
+    const first = await generateEcKeys();
+    const second = await generateEcKeys();
+    const authenticator = new JWTAuthenticator({
+        keys: [
+            {
+                kid: 'first',
+                algorithm: 'ES256',
+                key: await exportPem(first.publicKey),
+            },
+            {
+                kid: 'second',
+                algorithm: 'ES256',
+                key: await exportPem(second.publicKey),
+            },
+        ],
+    });
+
+    const token = await sign('ES256', first.privateKey, { sub: 'user' }, {
+        kid: 'first',
+    });
+    const wrongKid = await sign('ES256', first.privateKey, { sub: 'user' }, {
+        kid: 'second',
+    });
+    const unknownKid = await sign('ES256', first.privateKey, { sub: 'user' }, {
+        kid: 'third',
+    });
+
+    assertEquals((await authenticate(authenticator, token)).subject, 'user');
+    await assertRejects(
+        () => authenticate(authenticator, wrongKid),
+        NotAuthenticatedError,
+        'The token signature is not valid.',
+    );
+    await assertRejects(
+        () => authenticate(authenticator, unknownKid),
+        NotAuthenticatedError,
+        'The token signature is not valid.',
+    );
+});
+
+Deno.test('reads the keys of the JWKS file', async () => {
+    const { privateKey, publicKey } = await generateRsaKeys();
+    const jwksFile = await Deno.makeTempFile({ suffix: '.json' });
+
+    try {
+        await Deno.writeTextFile(
+            jwksFile,
+            JSON.stringify({
+                keys: [{
+                    ...await crypto.subtle.exportKey('jwk', publicKey),
+                    kid: 'rsa',
+                }],
+            }),
+        );
+
+        const authenticator = new JWTAuthenticator({ jwksFile });
+        const token = await sign('RS256', privateKey, { sub: 'user' }, {
+            kid: 'rsa',
+        });
+        const wrongKid = await sign('RS256', privateKey, { sub: 'user' }, {
+            kid: 'other',
+        });
+
+        assertEquals(
+            (await authenticate(authenticator, token)).subject,
+            'user',
+        );
+        await assertRejects(
+            () => authenticate(authenticator, wrongKid),
+            NotAuthenticatedError,
+            'The token signature is not valid.',
+        );
+    } finally {
+        await Deno.remove(jwksFile);
+    }
+});
+
+Deno.test('checks the validity period of the tokens', async () => {
+    const key = await importSecret();
+    const authenticator = new JWTAuthenticator({
+        keys: [{ algorithm: 'HS256', key: secret }],
+        clockTolerance: 30,
+    });
+
+    await assertRejects(
+        async () =>
+            authenticate(
+                authenticator,
+                await sign('HS256', key, { exp: now() - 60 }),
+            ),
+        NotAuthenticatedError,
+        'The token has expired.',
+    );
+    await assertRejects(
+        async () =>
+            authenticate(
+                authenticator,
+                await sign('HS256', key, { nbf: now() + 60 }),
+            ),
+        NotAuthenticatedError,
+        'The token is not valid yet.',
+    );
+
+    const exp = now() - 10;
+    const principal = await authenticate(
+        authenticator,
+        await sign('HS256', key, { exp, nbf: now() + 10 }),
+    );
+
+    assertEquals(principal.expiresAt, exp * 1000);
+});
+
+Deno.test('checks the issuer and the audience of the tokens', async () => {
+    const key = await importSecret();
+    const authenticator = new JWTAuthenticator({
+        keys: [{ algorithm: 'HS256', key: secret }],
+        issuer: 'https://issuer',
+        audience: ['api', 'admin'],
+    });
+
+    await assertRejects(
+        async () =>
+            authenticate(
+                authenticator,
+                await sign('HS256', key, { iss: 'https://other', aud: 'api' }),
+            ),
+        NotAuthenticatedError,
+        'The token issuer is not accepted.',
+    );
+    await assertRejects(
+        async () =>
+            authenticate(
+                authenticator,
+                await sign('HS256', key, { iss: 'https://issuer', aud: 'web' }),
+            ),
+        NotAuthenticatedError,
+        'The token audience is not accepted.',
+    );
+
+    const principal = await authenticate(
+        authenticator,
+        await sign('HS256', key, {
+            sub: 'user',
+            iss: 'https://issuer',
+            aud: ['web', 'admin'],
+        }),
+    );
+
+    assertEquals(principal.subject, 'user');
+});
@@ -0,0 +1,76 @@
+import {
+    AuthorizationRequirements,
+    NotAuthenticatedError,
+    NotAuthorizedError,
+    OperationContext,
+    RequestContext,
+} from './types/index.ts';
+
+/**
+ * Checks the principal of the request meets the requirements, in order the roles, the scopes
+ * and the policy. Throws when the request has no principal or one of them is not met
+ */
+export async function authorize(
+    requirements: AuthorizationRequirements | undefined,
+    context: RequestContext,
+    operationContext: OperationContext,
+): Promise<void> {
+    if (!requirements) {
+        return;
+    }
+
+    const principal = context.principal;
+
+    if (!principal) {
+        throw new NotAuthenticatedError(
+            'The operation requires an authenticated request.',
+        );
+    }
+
+    const roles = requirements.roles ?? [];
+
+    if (
+        roles.length > 0 &&
+        !roles.some((e) => (principal.roles ?? []).includes(e))
+    ) {
+        throw new NotAuthorizedError(
+            `The operation requires one of the roles [${roles.join(', ')}].`,
+        );
+    }
+
+    const missingScopes = (requirements.scopes ?? []).filter((e) =>
+        !(principal.scopes ?? []).includes(e)
+    );
+
+    if (missingScopes.length > 0) {
+        throw new NotAuthorizedError(
+            `The operation requires the scopes [${missingScopes.join(', ')}].`,
+        );
+    }
+
+    if (
+        requirements.policy &&
+        !(await requirements.policy(principal, context, operationContext))
+    ) {
+        throw new NotAuthorizedError(
+            'The operation is not allowed by the policy.',
+        );
+    }
+}
+
+/**
+ * Describes the requirements in the definitions, a policy is only flagged as present
+ */
+export function describeAuthorization(
+    requirements: AuthorizationRequirements | undefined,
+) {
+    if (!requirements) {
+        return undefined;
+    }
+
+    return {
+        roles: requirements.roles ?? [],
+        scopes: requirements.scopes ?? [],
+        policy: requirements.policy !== undefined,
+    };
+}
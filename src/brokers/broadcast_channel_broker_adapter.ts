@@ -0,0 +1,129 @@
+import {
+    Api,
+    BrokerAdapterInterface,
+    BrokerListener,
+    BrokerMessage,
+    SubscriptionTopic,
+} from '../types/index.ts';
+import { InMemoryBrokerAdapter } from './in_memory_broker_adapter.ts';
+
+type PresenceEntry = {
+    instanceId: string;
+    api: Api;
+    topic: SubscriptionTopic;
+    subscribers: number;
+};
+
+type ChannelMessage =
+    | { type: 'event'; message: BrokerMessage }
+    | { type: 'presence'; entry: PresenceEntry }
+    | { type: 'presence_sync' };
+
+/**
+ * Shares the events between the workers of one Deno process listening to the same channel name.
+ * The Deno CLI does not deliver the messages to other processes, servers running in separate
+ * processes or hosts need an adapter over an external broker. The listeners and the presence
+ * are kept in memory on each side
+ */
+export class BroadcastChannelBrokerAdapter implements BrokerAdapterInterface {
+    private channel: BroadcastChannel;
+    private local = new InMemoryBrokerAdapter();
+
+    /**
+     * Presence of the instances using this adapter, sent again when another side joins the channel
+     */
+    private ownPresence = new Map<string, PresenceEntry>();
+
+    constructor(name = 'jrpc') {
+        this.channel = new BroadcastChannel(name);
+
+        this.channel.onmessage = (e: MessageEvent<ChannelMessage>) => {
+            this.receive(e.data);
+        };
+
+        this.post({ type: 'presence_sync' });
+    }
+
+    public async publish(message: BrokerMessage): Promise<void> {
+        this.post({ type: 'event', message });
+
+        // a channel does not receive its own messages
+        await this.local.publish(message);
+    }
+
+    public subscribe(
+        api: Api,
+        topic: SubscriptionTopic,
+        listener: BrokerListener,
+    ): Promise<void> {
+        return this.local.subscribe(api, topic, listener);
+    }
+
+    public unsubscribe(
+        api: Api,
+        topic: SubscriptionTopic,
+        listener: BrokerListener,
+    ): Promise<void> {
+        return this.local.unsubscribe(api, topic, listener);
+    }
+
+    public async setPresence(
+        instanceId: string,
+        api: Api,
+        topic: SubscriptionTopic,
+        subscribers: number,
+    ): Promise<void> {
+        const entry = { instanceId, api, topic, subscribers };
+        const entryKey = `${instanceId}/${api}/${topic}`;
+
+        if (subscribers > 0) {
+            this.ownPresence.set(entryKey, entry);
+        } else {
+            this.ownPresence.delete(entryKey);
+        }
+
+        this.post({ type: 'presence', entry });
+
+        await this.local.setPresence(instanceId, api, topic, subscribers);
+    }
+
+    public getPresence(api: Api, topic: SubscriptionTopic): Promise<number> {
+        return this.local.getPresence(api, topic);
+    }
+
+    public async close(): Promise<void> {
+        for (const entry of this.ownPresence.values()) {
+            this.post({
+                type: 'presence',
+                entry: { ...entry, subscribers: 0 },
+            });
+        }
+
+        this.ownPresence.clear();
+        this.channel.close();
+
+        await this.local.close();
+    }
+
+    private receive(data: ChannelMessage) {
+        if (data.type == 'event') {
+            this.local.publish(data.message);
+            return;
+        }
+
+        if (data.type == 'presence') {
+            const { instanceId, api, topic, subscribers } = data.entry;
+
+            this.local.setPresence(instanceId, api, topic, subscribers);
+            return;
+        }
+
+        for (const entry of this.ownPresence.values()) {
+            this.post({ type: 'presence', entry });
+        }
+    }
+
+    private post(message: ChannelMessage) {
+        this.channel.postMessage(message);
+    }
+}
@@ -0,0 +1,103 @@
+import {
+    Api,
+    BrokerAdapterInterface,
+    BrokerListener,
+    BrokerMessage,
+    SubscriptionTopic,
+} from '../types/index.ts';
+
+/**
+ * Shares the events between the servers of the same process, each server uses its own
+ * instance when none is given
+ */
+export class InMemoryBrokerAdapter implements BrokerAdapterInterface {
+    private listeners = new Map<string, Set<BrokerListener>>();
+
+    /**
+     * Number of subscribers of each topic, by instance id
+     */
+    private presence = new Map<string, Map<string, number>>();
+
+    public publish(message: BrokerMessage): Promise<void> {
+        const listeners = this.listeners.get(
+            `${message.api}/${message.topic}`,
+        );
+
+        for (const listener of [...(listeners ?? [])]) {
+            listener(message);
+        }
+
+        return Promise.resolve();
+    }
+
+    public subscribe(
+        api: Api,
+        topic: SubscriptionTopic,
+        listener: BrokerListener,
+    ): Promise<void> {
+        const topicKey = `${api}/${topic}`;
+
+        this.listeners.set(
+            topicKey,
+            (this.listeners.get(topicKey) ?? new Set()).add(listener),
+        );
+
+        return Promise.resolve();
+    }
+
+    public unsubscribe(
+        api: Api,
+        topic: SubscriptionTopic,
+        listener: BrokerListener,
+    ): Promise<void> {
+        const topicKey = `${api}/${topic}`;
+        const listeners = this.listeners.get(topicKey);
+
+        listeners?.delete(listener);
+
+        if (listeners?.size === 0) {
+            this.listeners.delete(topicKey);
+        }
+
+        return Promise.resolve();
+    }
+
+    public setPresence(
+        instanceId: string,
+        api: Api,
+        topic: SubscriptionTopic,
+        subscribers: number,
+    ): Promise<void> {
+        const topicKey = `${api}/${topic}`;
+        const instances = this.presence.get(topicKey) ?? new Map();
+
+        if (subscribers > 0) {
+            instances.set(instanceId, subscribers);
+        } else {
+            instances.delete(instanceId);
+        }
+
+        if (instances.size > 0) {
+            this.presence.set(topicKey, instances);
+        } else {
+            this.presence.delete(topicKey);
+        }
+
+        return Promise.resolve();
+    }
+
+    public getPresence(api: Api, topic: SubscriptionTopic): Promise<number> {
+        const instances = this.presence.get(`${api}/${topic}`);
+
+        return Promise.resolve(
+            [...(instances?.values() ?? [])].reduce((a, b) => a + b, 0),
+        );
+    }
+
+    public close(): Promise<void> {
+        this.listeners.clear();
+        this.presence.clear();
+
+        return Promise.resolve();
+    }
+}
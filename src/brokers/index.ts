@@ -0,0 +1,2 @@
+export * from './in_memory_broker_adapter.ts';
+export * from './broadcast_channel_broker_adapter.ts';
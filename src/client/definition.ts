@@ -1,25 +1,44 @@
-import {ProcedureHandlerInterface} from "../types/index.ts";
+import {ProcedureHandlerInterface, SubscriptionHandlerInterface} from "../types/index.ts";
+import {describeAuthorization} from "../authorization.ts";
 
 export function generateDefinitions(
     serverProcedures: Map<
         string,
         Map<string, ProcedureHandlerInterface>
-    >
+    >,
+    serverSubscriptions: Map<
+        string,
+        Map<string, SubscriptionHandlerInterface>
+    > = new Map()
 ) {
     const apis: Record<
         string,
-        { procedures: Record<string, any>; }
+        { procedures: Record<string, any>; topics: Record<string, unknown>; }
     > = {};
 
     for (const [version, procedures] of serverProcedures) {
         if (!apis[version]) {
-            apis[version] = { procedures: {}, };
+            apis[version] = { procedures: {}, topics: {}, };
         }
 
         for (const [procedureName, procedure] of procedures) {
             apis[version].procedures[procedureName] = {
                 input: procedure.input,
-                output: procedure.output
+                output: procedure.output,
+                authorization: describeAuthorization(procedure.authorization)
+            };
+        }
+    }
+
+    for (const [version, subscriptions] of serverSubscriptions) {
+        if (!apis[version]) {
+            apis[version] = { procedures: {}, topics: {}, };
+        }
+
+        for (const [topic, subscription] of subscriptions) {
+            apis[version].topics[topic] = {
+                params: subscription.params,
+                authorization: describeAuthorization(subscription.authorization)
             };
         }
     }
@@ -168,9 +168,17 @@ export class Client_${apiVersion} {
         };
         
         websocket.onmessage = (e) => {
+            const message = JSON.parse(e.data);
+            
+            // answering the heartbeat keeps the connection opened
+            if (message.type == 'ping') {
+                websocket.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
+                return;
+            }
+            
             console.log('RECEIVED:');
             console.log('----');
-            console.log(JSON.parse(e.data));
+            console.log(message);
             
             // todo: route the message to the right handler
         };
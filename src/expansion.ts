@@ -0,0 +1,130 @@
+import {
+    RequestContext,
+    Resource,
+    ResourceId,
+    ResourceLink,
+    ResourceName,
+    ResourceReference,
+    ResourceResolverInterface,
+} from './types/index.ts';
+
+/**
+ * Returns true when the value is a property pointing to another resource
+ */
+export function isResourceLink(value: unknown): value is ResourceLink {
+    return typeof value == 'object' && value !== null &&
+        !Array.isArray(value) && Object.keys(value).length === 1 &&
+        typeof (value as Record<string, unknown>).$resource == 'string';
+}
+
+/**
+ * Builds the value of a property pointing to another resource
+ */
+export function createResourceLink(
+    name: ResourceName,
+    id: ResourceId,
+): ResourceLink {
+    return { $resource: `${name}/${id}` as ResourceReference };
+}
+
+/**
+ * Returns the references of every resource linked anywhere inside the value
+ */
+export function findResourceLinks(value: unknown): ResourceReference[] {
+    if (isResourceLink(value)) {
+        return [value.$resource];
+    }
+
+    if (typeof value == 'object' && value !== null) {
+        return Object.values(value).flatMap(findResourceLinks);
+    }
+
+    return [];
+}
+
+/**
+ * Loads the resources linked from the root resources, level by level up to the depth
+ * requested for each root. Loaded resources are added to the shared resources map once,
+ * links that can not be resolved are added as null
+ */
+export async function expandResources(
+    resources: Record<ResourceReference, Resource | null>,
+    roots: { reference: ResourceReference; depth: number }[],
+    resolvers: Map<ResourceName, ResourceResolverInterface> | undefined,
+    context: RequestContext,
+): Promise<void> {
+    const depths = new Map<ResourceReference, number>();
+    let level = roots.filter((e) => e.depth > 0);
+
+    for (const root of level) {
+        depths.set(
+            root.reference,
+            Math.max(root.depth, depths.get(root.reference) ?? 0),
+        );
+    }
+
+    while (level.length > 0) {
+        const links = new Map<ResourceReference, number>();
+
+        for (const { reference, depth } of level) {
+            for (const link of findResourceLinks(resources[reference])) {
+                links.set(link, Math.max(depth - 1, links.get(link) ?? 0));
+            }
+        }
+
+        await loadResources(
+            resources,
+            [...links.keys()].filter((e) => !(e in resources)),
+            resolvers,
+            context,
+        );
+
+        level = [];
+
+        // a resource reached again with more depth left is expanded again
+        for (const [reference, depth] of links) {
+            if (depth > 0 && depth > (depths.get(reference) ?? 0)) {
+                depths.set(reference, depth);
+                level.push({ reference, depth });
+            }
+        }
+    }
+}
+
+async function loadResources(
+    resources: Record<ResourceReference, Resource | null>,
+    references: ResourceReference[],
+    resolvers: Map<ResourceName, ResourceResolverInterface> | undefined,
+    context: RequestContext,
+): Promise<void> {
+    const idsByName = new Map<ResourceName, ResourceId[]>();
+
+    for (const reference of references) {
+        const separator = reference.indexOf('/');
+        const name = reference.slice(0, separator) as ResourceName;
+        const id = reference.slice(separator + 1) as ResourceId;
+
+        idsByName.set(name, [...(idsByName.get(name) ?? []), id]);
+        resources[reference] = null;
+    }
+
+    await Promise.all(
+        [...idsByName].map(async ([name, ids]) => {
+            const resolver = resolvers?.get(name);
+
+            if (!resolver) {
+                return;
+            }
+
+            const loaded = await resolver.resolve(ids, context);
+
+            for (
+                const reference of Object.keys(loaded) as ResourceReference[]
+            ) {
+                if (reference in resources) {
+                    resources[reference] = loaded[reference];
+                }
+            }
+        }),
+    );
+}
@@ -0,0 +1,73 @@
+import {
+    IdempotencyRecord,
+    IdempotencyStoreInterface,
+} from '../types/index.ts';
+
+/**
+ * Keeps the idempotency records in memory until their time to live expires
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStoreInterface {
+    private records = new Map<
+        string,
+        { record: IdempotencyRecord; expiresAt: number }
+    >();
+
+    public get(key: string): Promise<IdempotencyRecord | undefined> {
+        const entry = this.records.get(key);
+
+        if (entry && entry.expiresAt <= Date.now()) {
+            this.records.delete(key);
+            return Promise.resolve(undefined);
+        }
+
+        return Promise.resolve(entry?.record);
+    }
+
+    public set(
+        key: string,
+        record: IdempotencyRecord,
+        ttl: number,
+    ): Promise<void> {
+        this.removeExpired();
+
+        this.records.delete(key);
+        this.records.set(key, { record, expiresAt: Date.now() + ttl });
+
+        return Promise.resolve();
+    }
+
+    public reserve(
+        key: string,
+        record: IdempotencyRecord,
+        ttl: number,
+    ): Promise<IdempotencyRecord | undefined> {
+        const entry = this.records.get(key);
+
+        if (entry && entry.expiresAt > Date.now()) {
+            return Promise.resolve(entry.record);
+        }
+
+        return this.set(key, record, ttl).then(() => undefined);
+    }
+
+    public delete(key: string): Promise<void> {
+        this.records.delete(key);
+
+        return Promise.resolve();
+    }
+
+    /**
+     * Records are kept in insertion order, so the sweep stops at the first one still alive
+     */
+    private removeExpired() {
+        const now = Date.now();
+
+        for (const [key, entry] of this.records) {
+            if (entry.expiresAt > now) {
+                break;
+            }
+
+            this.records.delete(key);
+        }
+    }
+}
@@ -0,0 +1 @@
+export * from './in_memory_idempotency_store.ts';
@@ -1,4 +1,20 @@
 export * from './server.ts';
 export * from './utils.ts';
+export * from './references.ts';
+export * from './selection.ts';
+export * from './expansion.ts';
+export * from './query.ts';
+export * from './subscriptions.ts';
+export * from './authorization.ts';
+export * from './rate_limiting.ts';
+export * from './middlewares.ts';
+export * from './operation_graph.ts';
 export * from './types/index.ts';
-export * from './types/index.ts';
+export * from './validation/index.ts';
+export * from './transactions/index.ts';
+export * from './protocols/index.ts';
+export * from './idempotency/index.ts';
+export * from './brokers/index.ts';
+export * from './replay/index.ts';
+export * from './authentication/index.ts';
+export * from './rate_limit/index.ts';
@@ -0,0 +1,95 @@
+import {
+    MiddlewareInterface,
+    Operation,
+    OperationContext,
+    OperationOutput,
+    RequestContext,
+    ServerRequest,
+    ServerResponse,
+} from './types/index.ts';
+
+/**
+ * Runs the request layers of the middlewares scoped to the request around [processRequest]
+ */
+export function runRequestMiddlewares(
+    middlewares: MiddlewareInterface[],
+    request: ServerRequest,
+    context: RequestContext,
+    processRequest: () => Promise<ServerResponse>,
+): Promise<ServerResponse> {
+    const layers = middlewares.filter((e) =>
+        e.handleRequest &&
+        (e.api === undefined || e.api == request.api) &&
+        (e.procedure === undefined ||
+            request.operations.some((operation) =>
+                isProcedureOperation(operation, e)
+            ))
+    );
+
+    return runChain(
+        layers.map((e) => (next) => e.handleRequest!(request, context, next)),
+        processRequest,
+    );
+}
+
+/**
+ * Runs the operation layers of the middlewares scoped to the operation around [processOperation]
+ */
+export function runOperationMiddlewares(
+    middlewares: MiddlewareInterface[],
+    operationContext: OperationContext,
+    context: RequestContext,
+    processOperation: () => Promise<OperationOutput>,
+): Promise<OperationOutput> {
+    const layers = middlewares.filter((e) =>
+        e.handleOperation &&
+        (e.api === undefined || e.api == operationContext.api) &&
+        (e.procedure === undefined ||
+            isProcedureOperation(operationContext.operation, e))
+    );
+
+    return runChain(
+        layers.map((e) => (next) =>
+            e.handleOperation!(operationContext, context, next)
+        ),
+        processOperation,
+    );
+}
+
+function isProcedureOperation(
+    operation: Operation,
+    middleware: MiddlewareInterface,
+): boolean {
+    return operation.type == 'execute' &&
+        operation.procedure == middleware.procedure;
+}
+
+/**
+ * Calls the first layer with a [next] running the following ones, the last one calls [last]
+ */
+function runChain<T>(
+    layers: ((next: () => Promise<T>) => Promise<T>)[],
+    last: () => Promise<T>,
+): Promise<T> {
+    const run = (index: number): Promise<T> => {
+        if (index === layers.length) {
+            return last();
+        }
+
+        let called = false;
+
+        return layers[index](() => {
+            if (called) {
+                return Promise.reject(
+                    new Error('The middleware called [next] more than once.'),
+                );
+            }
+
+            called = true;
+
+            return run(index + 1);
+        });
+    };
+
+    return run(0);
+}
@@ -0,0 +1,145 @@
+import {
+    InvalidOperationDependencies,
+    Operation,
+    OperationId,
+} from './types/index.ts';
+import { findReferencedOperations } from './references.ts';
+
+/**
+ * Prerequisites of each operation, an operation only runs once all of them have completed
+ */
+export type OperationGraph = Map<OperationId, Set<OperationId>>;
+
+/**
+ * Builds the dependency graph of the operations from their [depends_on] lists and the
+ * results they reference in their input. Unknown dependencies and cycles are rejected
+ */
+export function buildOperationGraph(operations: Operation[]): OperationGraph {
+    const graph: OperationGraph = new Map();
+
+    for (const operation of operations) {
+        if (graph.has(operation.id)) {
+            throw new InvalidOperationDependencies(
+                `The operation id [${operation.id}] is used more than once.`,
+            );
+        }
+
+        graph.set(operation.id, new Set());
+    }
+
+    for (const operation of operations) {
+        const prerequisites = graph.get(operation.id)!;
+
+        for (const dependency of operation.depends_on ?? []) {
+            if (!graph.has(dependency)) {
+                throw new InvalidOperationDependencies(
+                    `The operation [${operation.id}] depends on the unknown operation [${dependency}].`,
+                );
+            }
+
+            prerequisites.add(dependency);
+        }
+
+        // unknown referenced operations are reported by the operation itself when resolving its input
+        if (operation.type == 'execute') {
+            for (const reference of findReferencedOperations(operation.input)) {
+                if (graph.has(reference)) {
+                    prerequisites.add(reference);
+                }
+            }
+        }
+    }
+
+    const cycle = findCycle(graph);
+
+    if (cycle) {
+        throw new InvalidOperationDependencies(
+            `The operations have a circular dependency [${
+                cycle.join(' -> ')
+            }].`,
+        );
+    }
+
+    return graph;
+}
+
+/**
+ * Runs the operations respecting the graph, keeping at most [concurrency] of them running
+ * at the same time. Ready operations start in the order they appear in the request
+ */
+export async function runOperationGraph(
+    graph: OperationGraph,
+    operations: Operation[],
+    concurrency: number,
+    task: (operation: Operation) => Promise<void>,
+): Promise<void> {
+    const completed = new Set<OperationId>();
+    const running = new Map<OperationId, Promise<OperationId>>();
+
+    while (completed.size < operations.length) {
+        for (const operation of operations) {
+            if (running.size >= Math.max(1, concurrency)) {
+                break;
+            }
+
+            if (completed.has(operation.id) || running.has(operation.id)) {
+                continue;
+            }
+
+            const prerequisites = graph.get(operation.id) ?? new Set();
+
+            if ([...prerequisites].every((e) => completed.has(e))) {
+                running.set(
+                    operation.id,
+                    task(operation).then(() => operation.id),
+                );
+            }
+        }
+
+        const finished = await Promise.race(running.values());
+
+        running.delete(finished);
+        completed.add(finished);
+    }
+}
+
+function findCycle(graph: OperationGraph): OperationId[] | undefined {
+    const visited = new Set<OperationId>();
+    const path: OperationId[] = [];
+
+    const visit = (id: OperationId): OperationId[] | undefined => {
+        const position = path.indexOf(id);
+
+        if (position !== -1) {
+            return [...path.slice(position), id];
+        }
+
+        if (visited.has(id)) {
+            return undefined;
+        }
+
+        visited.add(id);
+        path.push(id);
+
+        for (const prerequisite of graph.get(id) ?? []) {
+            const cycle = visit(prerequisite);
+
+            if (cycle) {
+                return cycle;
+            }
+        }
+
+        path.pop();
+        return undefined;
+    };
+
+    for (const id of graph.keys()) {
+        const cycle = visit(id);
+
+        if (cycle) {
+            return cycle;
+        }
+    }
+
+    return undefined;
+}
@@ -0,0 +1,164 @@
+import { assert, assertEquals, assertThrows } from '@std/assert';
+import {
+    InvalidOperationDependencies,
+    JRPCError,
+    Operation,
+} from './types/index.ts';
+import { buildOperationGraph, runOperationGraph } from './operation_graph.ts';
+
+function execute(
+    id: string,
+    options: { depends_on?: string[]; input?: Record<string, unknown> } = {},
+): Operation {
+    return {
+        id,
+        type: 'execute',
+        procedure: 'procedure',
+        input: options.input,
+        depends_on: options.depends_on,
+    } as Operation;
+}
+
+/**
+ * Lists the prerequisites of each operation to keep the assertions short
+ */
+function getPrerequisites(operations: Operation[]): Record<string, string[]> {
+    return Object.fromEntries(
+        [...buildOperationGraph(operations)].map(([id, prerequisites]) => [
+            id,
+            [...prerequisites],
+        ]),
+    );
+}
+
+function getReason(operations: Operation[]): unknown {
+    const error = assertThrows(
+        () => buildOperationGraph(operations),
+        InvalidOperationDependencies,
+    );
+
+    return (error as JRPCError).options?.suggestions;
+}
+
+/**
+ * Returns a task recording the start and end of each operation, finishing after [delays] milliseconds
+ */
+function recordTask(events: string[], delays: Record<string, number> = {}) {
+    return async (operation: Operation) => {
+        events.push(`start ${operation.id}`);
+        await new Promise((resolve) =>
+            setTimeout(resolve, delays[operation.id] ?? 0)
+        );
+        events.push(`end ${operation.id}`);
+    };
+}
+
+Deno.test('builds the prerequisites from depends_on and the references', () => {
+    assertEquals(
+        getPrerequisites([
+            execute('a'),
+            execute('b', { depends_on: ['a'] }),
+            execute('c', {
+                input: { id: { $result: 'b.result[0]._resource_id' } },
+            }),
+            execute('d', { input: { id: { $result: 'unknown.result' } } }),
+        ]),
+        { a: [], b: ['a'], c: ['b'], d: [] },
+    );
+});
+
+Deno.test('rejects the duplicate ids and the unknown dependencies', () => {
+    assertEquals(getReason([execute('a'), execute('a')]), [
+        'The operation id [a] is used more than once.',
+    ]);
+    assertEquals(getReason([execute('a', { depends_on: ['b'] })]), [
+        'The operation [a] depends on the unknown operation [b].',
+    ]);
+});
+
+Deno.test('rejects the circular dependencies', () => {
+    assertEquals(
+        getReason([
+            execute('a', { depends_on: ['c'] }),
+            execute('b', { depends_on: ['a'] }),
+            execute('c', { depends_on: ['b'] }),
+        ]),
+        ['The operations have a circular dependency [a -> c -> b -> a].'],
+    );
+    assertEquals(getReason([execute('a', { depends_on: ['a'] })]), [
+        'The operations have a circular dependency [a -> a].',
+    ]);
+});
+
+Deno.test('runs the operations after their prerequisites', async () => {
+    const operations = [
+        execute('a', { depends_on: ['b'] }),
+        execute('b'),
+        execute('c'),
+    ];
+    const events: string[] = [];
+
+    await runOperationGraph(
+        buildOperationGraph(operations),
+        operations,
+        1,
+        recordTask(events),
+    );
+
+    assertEquals(events, [
+        'start b',
+        'end b',
+        'start a',
+        'end a',
+        'start c',
+        'end c',
+    ]);
+});
+
+Deno.test('keeps at most the concurrency of operations running', async () => {
+    const operations = ['a', 'b', 'c', 'd'].map((e) => execute(e));
+    const events: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    await runOperationGraph(
+        buildOperationGraph(operations),
+        operations,
+        2,
+        async (operation) => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await recordTask(events, { a: 20 })(operation);
+            running--;
+        },
+    );
+
+    assertEquals(maxRunning, 2);
+    // [c] and [d] take the place of [b] while [a] is still running
+    assert(events.indexOf('end a') > events.indexOf('end d'));
+});
+
+Deno.test('starts an operation as soon as its prerequisites completed', async () => {
+    const operations = [
+        execute('slow'),
+        execute('fast'),
+        execute('next', { depends_on: ['fast'] }),
+    ];
+    const events: string[] = [];
+
+    await runOperationGraph(
+        buildOperationGraph(operations),
+        operations,
+        Infinity,
+        recordTask(events, { slow: 20 }),
+    );
+
+    assertEquals(events, [
+        'start slow',
+        'start fast',
+        'end fast',
+        'start next',
+        'end next',
+        'end slow',
+    ]);
+});
@@ -0,0 +1 @@
+export * from './v1.ts';
@@ -0,0 +1,41 @@
+import {
+    InvalidRequest,
+    JSONSchema,
+    ProtocolProcessorInterface,
+    ProtocolVersions,
+    ServerRequest,
+    ServerResponse,
+    ServerResponseError,
+} from '../types/index.ts';
+import { validateSchema } from '../validation/index.ts';
+import serverInputSchema from '../../schemas/server/1_0_0/input.json' with {
+    type: 'json',
+};
+
+/**
+ * Processor of the v1 envelope, which is the internal request and response format of the server
+ */
+export class ProtocolV1Processor implements ProtocolProcessorInterface {
+    public version = ProtocolVersions.v1;
+
+    public parseRequest(payload: unknown): ServerRequest {
+        const violations = validateSchema(
+            serverInputSchema as JSONSchema,
+            payload,
+        );
+
+        if (violations.length > 0) {
+            throw new InvalidRequest(violations);
+        }
+
+        return payload as ServerRequest;
+    }
+
+    public formatResponse(response: ServerResponse): ServerResponse {
+        return response;
+    }
+
+    public formatError(response: ServerResponseError): ServerResponseError {
+        return response;
+    }
+}
@@ -0,0 +1,186 @@
+import {
+    _JSONSchema,
+    Query,
+    QueryHandlerInterface,
+    QueryOperation,
+    SchemaViolation,
+    WhereCondition,
+} from './types/index.ts';
+import { escapePointer, validateSchema } from './validation/index.ts';
+
+/**
+ * Page size used when neither the query nor the handler define one
+ */
+export const defaultQueryLimit = 100;
+
+const internalProperties = ['_resource_id', '_resource_name'];
+
+/**
+ * Checks the filtered and sorted properties are declared in the resource schema
+ * and the condition values fit the type of each property
+ */
+export function validateQuery(
+    operation: QueryOperation,
+    queryHandler: QueryHandlerInterface,
+): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const maxLimit = queryHandler.maxLimit ?? defaultQueryLimit;
+
+    for (const [property, condition] of Object.entries(operation.where ?? {})) {
+        const path = `/where/${escapePointer(property)}`;
+        const propertySchema = getPropertySchema(queryHandler, property);
+
+        if (propertySchema === undefined) {
+            violations.push({
+                path,
+                keyword: 'property',
+                message: `The property [${property}] can not be filtered.`,
+            });
+            continue;
+        }
+
+        violations.push(
+            ...validateCondition(condition, propertySchema, path),
+        );
+    }
+
+    for (const [i, orderBy] of (operation.order_by ?? []).entries()) {
+        const propertySchema = getPropertySchema(
+            queryHandler,
+            orderBy.property,
+        );
+
+        if (
+            propertySchema === undefined ||
+            (typeof propertySchema == 'object' &&
+                ['object', 'array'].includes(propertySchema.type ?? ''))
+        ) {
+            violations.push({
+                path: `/order_by/${i}/property`,
+                keyword: 'property',
+                message:
+                    `The property [${orderBy.property}] can not be sorted.`,
+            });
+        }
+    }
+
+    if (operation.limit !== undefined && operation.limit > maxLimit) {
+        violations.push({
+            path: '/limit',
+            keyword: 'maximum',
+            expected: maxLimit,
+            message: `Expected a limit lower or equal than [${maxLimit}].`,
+        });
+    }
+
+    return violations;
+}
+
+/**
+ * Builds the query passed to the handler, applying the default page size
+ */
+export function toQuery(
+    operation: QueryOperation,
+    queryHandler: QueryHandlerInterface,
+): Query {
+    return {
+        where: operation.where ?? {},
+        orderBy: (operation.order_by ?? []).map((e) => ({
+            property: e.property,
+            direction: e.direction ?? 'asc',
+        })),
+        limit: operation.limit ?? queryHandler.maxLimit ?? defaultQueryLimit,
+        cursor: operation.cursor,
+    };
+}
+
+/**
+ * Returns the schema of the property, true when the resource schema does not declare properties
+ */
+function getPropertySchema(
+    queryHandler: QueryHandlerInterface,
+    property: string,
+): _JSONSchema | undefined {
+    if (internalProperties.includes(property)) {
+        return { type: 'string' };
+    }
+
+    const properties = queryHandler.schema?.properties;
+
+    if (properties === undefined) {
+        return true;
+    }
+
+    return Object.hasOwn(properties, property)
+        ? properties[property]
+        : undefined;
+}
+
+function validateCondition(
+    condition: WhereCondition,
+    propertySchema: _JSONSchema,
+    path: string,
+): SchemaViolation[] {
+    const validateValue = (value: unknown, valuePath: string) =>
+        validateSchema(propertySchema, value).map((violation) => ({
+            ...violation,
+            path: `${valuePath}${violation.path}`,
+        }));
+
+    if (Array.isArray(condition)) {
+        return condition.flatMap((e, i) => validateValue(e, `${path}/${i}`));
+    }
+
+    if (typeof condition != 'object' || condition === null) {
+        return validateValue(condition, path);
+    }
+
+    if ('equal' in condition) {
+        return validateValue(condition.equal, `${path}/equal`);
+    }
+
+    if ('in' in condition) {
+        return condition.in.flatMap((e, i) =>
+            validateValue(e, `${path}/in/${i}`)
+        );
+    }
+
+    const type = typeof propertySchema == 'object'
+        ? propertySchema.type
+        : undefined;
+
+    if ('match' in condition) {
+        return type === undefined || type === 'string' ? [] : [{
+            path: `${path}/match`,
+            keyword: 'type',
+            expected: type,
+            message: 'Only string properties can be matched.',
+        }];
+    }
+
+    const violations: SchemaViolation[] = [];
+
+    for (const operator of ['gt', 'lt'] as const) {
+        const value = condition[operator];
+
+        if (value === undefined || type === undefined) {
+            continue;
+        }
+
+        const comparable = type === 'string'
+            ? typeof value == 'string'
+            : ['number', 'integer'].includes(type) && typeof value == 'number';
+
+        if (!comparable) {
+            violations.push({
+                path: `${path}/${operator}`,
+                keyword: 'type',
+                expected: type,
+                message:
+                    `The value can not be compared with a property of type [${type}].`,
+            });
+        }
+    }
+
+    return violations;
+}
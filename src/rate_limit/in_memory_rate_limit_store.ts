@@ -0,0 +1,64 @@
+import { RateLimitResult, RateLimitStoreInterface } from '../types/index.ts';
+
+/**
+ * Keeps the token buckets in memory, the tokens are refilled when the bucket is used
+ */
+export class InMemoryRateLimitStore implements RateLimitStoreInterface {
+    private buckets = new Map<
+        string,
+        { tokens: number; updatedAt: number; fullAt: number }
+    >();
+
+    public consume(
+        key: string,
+        capacity: number,
+        refillRate: number,
+    ): Promise<RateLimitResult> {
+        const now = Date.now();
+
+        this.removeFull(now);
+
+        const bucket = this.buckets.get(key) ??
+            { tokens: capacity, updatedAt: now, fullAt: now };
+
+        bucket.tokens = Math.min(
+            capacity,
+            bucket.tokens + (now - bucket.updatedAt) / 1000 * refillRate,
+        );
+        bucket.updatedAt = now;
+
+        let result: RateLimitResult;
+
+        if (bucket.tokens >= 1) {
+            bucket.tokens -= 1;
+            result = { allowed: true, retryAfter: 0 };
+        } else {
+            result = {
+                allowed: false,
+                retryAfter: Math.ceil((1 - bucket.tokens) / refillRate * 1000),
+            };
+        }
+
+        bucket.fullAt = now +
+            (capacity - bucket.tokens) / refillRate * 1000;
+
+        // buckets are kept in the order of their last use
+        this.buckets.delete(key);
+        this.buckets.set(key, bucket);
+
+        return Promise.resolve(result);
+    }
+
+    /**
+     * A full bucket is the same as a missing one, the sweep stops at the first one not full yet
+     */
+    private removeFull(now: number) {
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.fullAt > now) {
+                break;
+            }
+
+            this.buckets.delete(key);
+        }
+    }
+}
@@ -0,0 +1 @@
+export * from './in_memory_rate_limit_store.ts';
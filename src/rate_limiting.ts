@@ -0,0 +1,67 @@
+import {
+    Api,
+    ProcedureName,
+    RateLimited,
+    RateLimitRule,
+    RateLimitStoreInterface,
+    RequestContext,
+} from './types/index.ts';
+
+/**
+ * Takes a token from the bucket of every rule applying to the request, or to the operation
+ * when a procedure is given. Throws [RateLimited] with the longest wait when one of them is empty
+ */
+export async function checkRateLimits(
+    store: RateLimitStoreInterface,
+    rules: RateLimitRule[],
+    api: Api,
+    procedure: ProcedureName | undefined,
+    context: RequestContext,
+): Promise<void> {
+    let retryAfter = 0;
+
+    for (const [i, rule] of rules.entries()) {
+        if (
+            (rule.api !== undefined && rule.api != api) ||
+            rule.procedure != procedure
+        ) {
+            continue;
+        }
+
+        const result = await store.consume(
+            getBucketKey(i, rule, context),
+            rule.capacity,
+            rule.refillRate,
+        );
+
+        if (!result.allowed) {
+            retryAfter = Math.max(retryAfter, result.retryAfter);
+        }
+    }
+
+    if (retryAfter > 0) {
+        throw new RateLimited(retryAfter);
+    }
+}
+
+function getBucketKey(
+    index: number,
+    rule: RateLimitRule,
+    context: RequestContext,
+): string {
+    const clientAddress = context.clientAddress ?? 'unknown';
+    let client = '*';
+
+    if (rule.per == 'ip') {
+        client = `ip:${clientAddress}`;
+    }
+
+    if (rule.per == 'principal') {
+        const subject = context.principal?.subject;
+        client = subject !== undefined
+            ? `principal:${subject}`
+            : `ip:${clientAddress}`;
+    }
+
+    return `${index}/${rule.api ?? '*'}/${rule.procedure ?? '*'}/${client}`;
+}
@@ -0,0 +1,155 @@
+import {
+    InvalidOperationReference,
+    OperationId,
+    OperationResultReference,
+    ResourceReference,
+    ServerResponse,
+} from './types/index.ts';
+
+const referencePattern = /^([^.[\]]+)\.result((?:\[\d+\]|\.[^.[\]]+)*)$/;
+const segmentPattern = /\[(\d+)\]|\.([^.[\]]+)/g;
+
+/**
+ * Returns true when the value is a marker pointing to the result of another operation
+ */
+export function isOperationResultReference(
+    value: unknown,
+): value is OperationResultReference {
+    return typeof value == 'object' && value !== null &&
+        !Array.isArray(value) && Object.keys(value).length === 1 &&
+        typeof (value as Record<string, unknown>).$result == 'string';
+}
+
+/**
+ * Returns the ids of the operations referenced anywhere inside the value
+ */
+export function findReferencedOperations(value: unknown): OperationId[] {
+    if (isOperationResultReference(value)) {
+        const match = referencePattern.exec(value.$result);
+        return match ? [match[1] as OperationId] : [];
+    }
+
+    if (typeof value == 'object' && value !== null) {
+        return Object.values(value).flatMap(findReferencedOperations);
+    }
+
+    return [];
+}
+
+/**
+ * Replaces every [$result] marker in the value with the value it points to,
+ * like [createOrganization.result[0]] or [createOrganization.result[0].name]
+ */
+export function resolveOperationReferences<T>(
+    value: T,
+    response: ServerResponse,
+    operationIds: OperationId[],
+): T {
+    if (isOperationResultReference(value)) {
+        return resolveReference(value.$result, response, operationIds) as T;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map((e) =>
+            resolveOperationReferences(e, response, operationIds)
+        ) as T;
+    }
+
+    if (typeof value == 'object' && value !== null) {
+        const resolved: Record<string, unknown> = {};
+
+        for (const [key, property] of Object.entries(value)) {
+            resolved[key] = resolveOperationReferences(
+                property,
+                response,
+                operationIds,
+            );
+        }
+
+        return resolved as T;
+    }
+
+    return value;
+}
+
+function resolveReference(
+    reference: string,
+    response: ServerResponse,
+    operationIds: OperationId[],
+): unknown {
+    const match = referencePattern.exec(reference);
+
+    if (!match) {
+        throw new InvalidOperationReference(
+            reference,
+            'The reference must look like [<operationId>.result[<index>].<property>].',
+        );
+    }
+
+    const operationId = match[1] as OperationId;
+
+    if (!operationIds.includes(operationId)) {
+        throw new InvalidOperationReference(
+            reference,
+            `The operation [${operationId}] is not part of the request.`,
+        );
+    }
+
+    const operationResults = response.operations[operationId];
+
+    if (!operationResults) {
+        throw new InvalidOperationReference(
+            reference,
+            `The operation [${operationId}] has not completed yet, it must run before the operation referencing it.`,
+        );
+    }
+
+    if ('error' in operationResults) {
+        throw new InvalidOperationReference(
+            reference,
+            `The operation [${operationId}] failed with [${operationResults.error.code}].`,
+        );
+    }
+
+    let current: unknown = ([] as ResourceReference[]).concat(
+        operationResults.result ?? [],
+    );
+
+    for (const segment of match[2].matchAll(segmentPattern)) {
+        const [, index, property] = segment;
+
+        if (index !== undefined) {
+            if (!Array.isArray(current) || Number(index) >= current.length) {
+                throw new InvalidOperationReference(
+                    reference,
+                    `The index [${index}] does not exist in the result of [${operationId}].`,
+                );
+            }
+
+            current = current[Number(index)];
+            continue;
+        }
+
+        // a resource reference is replaced by the resource it points to before reading properties from it
+        if (
+            typeof current == 'string' &&
+            Object.hasOwn(response.resources, current)
+        ) {
+            current = response.resources[current as ResourceReference];
+        }
+
+        if (
+            typeof current != 'object' || current === null ||
+            !Object.hasOwn(current, property)
+        ) {
+            throw new InvalidOperationReference(
+                reference,
+                `The property [${property}] does not exist in the result of [${operationId}].`,
+            );
+        }
+
+        current = (current as Record<string, unknown>)[property];
+    }
+
+    return current;
+}
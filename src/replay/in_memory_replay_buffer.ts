@@ -0,0 +1,64 @@
+import {
+    Api,
+    ReplayBufferInterface,
+    SubscriptionEvent,
+    SubscriptionTopic,
+} from '../types/index.ts';
+
+/**
+ * Keeps the last [capacity] events of each topic in memory. The ids are local to the instance
+ * and start over when the process restarts, so a client resuming with an unknown id is asked
+ * to resync. Clients resuming on another instance need a shared buffer
+ */
+export class InMemoryReplayBuffer implements ReplayBufferInterface {
+    private topics = new Map<
+        string,
+        { lastId: number; events: SubscriptionEvent[] }
+    >();
+
+    constructor(private capacity = 1000) {}
+
+    public append(
+        api: Api,
+        topic: SubscriptionTopic,
+        event: SubscriptionEvent,
+    ): Promise<SubscriptionEvent> {
+        const topicKey = `${api}/${topic}`;
+        const buffer = this.topics.get(topicKey) ?? { lastId: 0, events: [] };
+        const stored = { ...event, id: buffer.lastId + 1 };
+
+        buffer.lastId = stored.id;
+        buffer.events.push(stored);
+
+        if (buffer.events.length > this.capacity) {
+            buffer.events.splice(0, buffer.events.length - this.capacity);
+        }
+
+        this.topics.set(topicKey, buffer);
+
+        return Promise.resolve(stored);
+    }
+
+    public since(
+        api: Api,
+        topic: SubscriptionTopic,
+        lastEventId: number,
+    ): Promise<SubscriptionEvent[] | undefined> {
+        const buffer = this.topics.get(`${api}/${topic}`) ??
+            { lastId: 0, events: [] };
+
+        if (lastEventId > buffer.lastId) {
+            return Promise.resolve(undefined);
+        }
+
+        const oldestId = buffer.events[0]?.id ?? buffer.lastId + 1;
+
+        if (lastEventId < oldestId - 1) {
+            return Promise.resolve(undefined);
+        }
+
+        return Promise.resolve(
+            buffer.events.filter((e) => e.id! > lastEventId),
+        );
+    }
+}
@@ -0,0 +1 @@
+export * from './in_memory_replay_buffer.ts';
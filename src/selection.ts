@@ -0,0 +1,283 @@
+import { _JSONSchema, Resource, ResourceName } from './types/index.ts';
+
+type SelectionTree = true | { [key: string]: SelectionTree };
+
+const internalProperties = ['_resource_id', '_resource_name'];
+const expandPattern = /^\$expand:(\d+)$/;
+
+/**
+ * Maximum depth a selection can ask linked resources to be expanded to
+ */
+export const maxExpansionDepth = 5;
+
+/**
+ * Returns the depth of the linked resources to expand, asked in the selection with [$expand:<depth>]
+ */
+export function getExpansionDepth(selection: string[]): number {
+    const depths = selection.map((e) => expandPattern.exec(e))
+        .filter((e) => e !== null)
+        .map((e) => Number(e![1]));
+
+    return Math.min(Math.max(0, ...depths), maxExpansionDepth);
+}
+
+/**
+ * Returns the selected properties of the resource. A selection is a list of dotted paths like
+ * [address.city], [*] selects every property of a level but the internal ones and a leading
+ * [-] excludes a path.
+ * Without any included path every property but the internal ones is returned.
+ * Linked resources stay as links, [$expand:<depth>] entries are ignored
+ */
+export function applySelection(
+    resource: Resource,
+    selection: string[],
+): Record<string, unknown> {
+    selection = selection.filter((e) => !expandPattern.test(e));
+
+    const includes = selection.filter((e) => !e.startsWith('-'));
+    const excludes = selection.filter((e) => e.startsWith('-'))
+        .map((e) => e.slice(1));
+
+    let selected: unknown;
+
+    if (includes.length > 0) {
+        selected = pick(resource, buildTree(includes));
+    } else {
+        const copy: Record<string, unknown> = structuredClone(resource);
+
+        for (const property of internalProperties) {
+            delete copy[property];
+        }
+
+        selected = copy;
+    }
+
+    if (excludes.length > 0) {
+        selected = omit(selected, buildTree(excludes));
+    }
+
+    return selected as Record<string, unknown>;
+}
+
+/**
+ * Merges two selections of the same resource
+ */
+export function mergeSelections(a: unknown, b: unknown): unknown {
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return Array.from(
+            { length: Math.max(a.length, b.length) },
+            (_e, i) => mergeSelections(a[i], b[i]),
+        );
+    }
+
+    if (isRecord(a) && isRecord(b)) {
+        const merged: Record<string, unknown> = { ...a };
+
+        for (const [key, value] of Object.entries(b)) {
+            merged[key] = key in merged
+                ? mergeSelections(merged[key], value)
+                : value;
+        }
+
+        return merged;
+    }
+
+    return b === undefined ? a : b;
+}
+
+/**
+ * Returns the selected paths naming properties not declared in the output schema.
+ * Levels of the schema without declared properties accept any path
+ */
+export function findUndeclaredSelections(
+    selection: string[],
+    schema: _JSONSchema,
+): string[] {
+    return selection.filter((path) => {
+        if (expandPattern.test(path)) {
+            return false;
+        }
+
+        const segments = path.replace(/^-/, '').split('.');
+
+        if (internalProperties.includes(segments[0])) {
+            return segments.length > 1;
+        }
+
+        return !isDeclared(segments, schema);
+    });
+}
+
+/**
+ * Returns the resource names declared by the [_resource_name] const or enum of the schema,
+ * undefined when the schema does not restrict them
+ */
+export function getDeclaredResourceNames(
+    schema: _JSONSchema,
+): ResourceName[] | undefined {
+    if (typeof schema == 'boolean') {
+        return undefined;
+    }
+
+    if (schema.type === 'array' && schema.items !== undefined) {
+        return Array.isArray(schema.items)
+            ? undefined
+            : getDeclaredResourceNames(schema.items);
+    }
+
+    const nameSchema = schema.properties?._resource_name;
+
+    if (nameSchema === undefined || typeof nameSchema == 'boolean') {
+        return undefined;
+    }
+
+    const names = nameSchema.const !== undefined
+        ? [nameSchema.const]
+        : nameSchema.enum;
+
+    return names?.every((e) => typeof e == 'string')
+        ? names as ResourceName[]
+        : undefined;
+}
+
+function isDeclared(segments: string[], schema: _JSONSchema): boolean {
+    if (segments.length === 0 || typeof schema == 'boolean') {
+        return true;
+    }
+
+    if (schema.type === 'array' && schema.items !== undefined) {
+        return isDeclared(
+            segments,
+            Array.isArray(schema.items) ? true : schema.items,
+        );
+    }
+
+    if (schema.properties === undefined) {
+        return true;
+    }
+
+    const [segment, ...rest] = segments;
+
+    if (segment === '*') {
+        return true;
+    }
+
+    const patternSchema = Object.entries(schema.patternProperties ?? {})
+        .find(([pattern]) => new RegExp(pattern, 'u').test(segment))?.[1];
+    const propertySchema = Object.hasOwn(schema.properties, segment)
+        ? schema.properties[segment]
+        : patternSchema;
+
+    if (propertySchema === undefined) {
+        return false;
+    }
+
+    return isDeclared(rest, propertySchema);
+}
+
+function buildTree(paths: string[]): SelectionTree {
+    const tree: Record<string, SelectionTree> = {};
+
+    for (const path of paths) {
+        let node = tree;
+        const segments = path.split('.');
+
+        for (let i = 0; i < segments.length; i++) {
+            const segment = segments[i];
+
+            if (i === segments.length - 1) {
+                node[segment] = true;
+                break;
+            }
+
+            if (node[segment] === true) {
+                break;
+            }
+
+            node[segment] = node[segment] ?? {};
+            node = node[segment] as Record<string, SelectionTree>;
+        }
+    }
+
+    return tree;
+}
+
+/**
+ * Returns the subtree applying to the key, merging the one of the [*] wildcard
+ */
+function subtree(
+    tree: Record<string, SelectionTree>,
+    key: string,
+): SelectionTree | undefined {
+    const named = tree[key];
+    // the internal properties are only selected when named
+    const wildcard = internalProperties.includes(key) ? undefined : tree['*'];
+
+    if (named === true || wildcard === true) {
+        return true;
+    }
+
+    if (named && wildcard) {
+        return mergeSelections(named, wildcard) as SelectionTree;
+    }
+
+    return named ?? wildcard;
+}
+
+function pick(value: unknown, tree: SelectionTree): unknown {
+    if (tree === true) {
+        return structuredClone(value);
+    }
+
+    if (Array.isArray(value)) {
+        return value.map((e) => pick(e, tree));
+    }
+
+    if (!isRecord(value)) {
+        return value;
+    }
+
+    const picked: Record<string, unknown> = {};
+
+    for (const key of Object.keys(value)) {
+        const keyTree = subtree(tree, key);
+
+        if (keyTree !== undefined) {
+            picked[key] = pick(value[key], keyTree);
+        }
+    }
+
+    return picked;
+}
+
+function omit(value: unknown, tree: SelectionTree): unknown {
+    if (tree === true) {
+        return undefined;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map((e) => omit(e, tree));
+    }
+
+    if (!isRecord(value)) {
+        return value;
+    }
+
+    const kept: Record<string, unknown> = {};
+
+    for (const key of Object.keys(value)) {
+        const keyTree = subtree(tree, key);
+
+        if (keyTree === undefined) {
+            kept[key] = value[key];
+        } else if (keyTree !== true) {
+            kept[key] = omit(value[key], keyTree);
+        }
+    }
+
+    return kept;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value == 'object' && value !== null && !Array.isArray(value);
+}
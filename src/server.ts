@@ -1,37 +1,129 @@
 import {
     Api,
+    AtomicNotSupported,
+    AuthenticatorInterface,
+    AuthMessage,
+    AuthorizationRequirements,
+    AuthResultMessage,
+    BatchAborted,
+    BrokerAdapterInterface,
+    BrokerListener,
+    ConnectionLifetimeExceeded,
+    defaultHttpStatuses,
     Environment,
+    ErrorCodes,
+    ErrorResponse,
     ExpectedRequestBodyContent,
+    HeartbeatMessage,
+    HeartbeatTimeout,
     HttpMethod,
+    IdempotencyConflict,
+    IdempotencyKeyInUse,
+    IdempotencyStoreInterface,
+    IdleTimeout,
+    InvalidInput,
     InvalidJsonContent,
+    InvalidOutput,
+    InvalidQuery,
+    InvalidRequest,
+    InvalidReturnSelection,
+    InvalidSubscriptionParams,
     JRPCError,
     LogLevel,
+    MiddlewareInterface,
+    NotAuthenticatedError,
+    NotSubscribed,
     Operation,
     OperationContext,
+    OperationId,
     OperationOutput,
+    OperationResults,
+    OperationSkipped,
+    OperationTimeout,
     OperationTypeNotSupported,
+    PartialCommit,
+    PayloadTooLarge,
+    Principal,
     ProcedureHandlerInterface,
     ProcedureName,
     ProcedureNotFound,
+    ProcedureOperation,
+    ProtocolProcessorInterface,
     ProtocolVersion,
+    ProtocolVersionNotSupported,
     ProtocolVersions,
+    PublishResult,
+    QueryHandlerInterface,
+    QueryNotFound,
+    RateLimitRule,
+    RateLimitStoreInterface,
+    ReplayBufferInterface,
     RequestContext,
+    RequestEnvelope,
     RequestMethodNotSupported,
     Resource,
+    ResourceName,
     ResourceReference,
+    ResourceResolverInterface,
+    SchemaViolation,
     ServerRequest,
+    ServerRequestAuthentication,
     ServerResponse,
     ServerResponseError,
     ServerWebSocket,
     ServerWebSocketId,
+    SlowConsumer,
+    SlowConsumerPolicy,
+    SocketSubscription,
+    SubscriptionEvent,
+    SubscriptionEventEnvelope,
     SubscriptionHandlerInterface,
+    SubscriptionId,
     SubscriptionNotFound,
+    SubscriptionParams,
     SubscriptionTopic,
     toErrorResponse,
+    TooManyClientConnections,
+    TooManyConnections,
+    TooManyOperations,
+    TooManySubscriptions,
+    TopicSubscriber,
+    TransactionHandlerInterface,
     UnhandledError,
     UpgradeRequestNotSupported,
+    WebSocketCloseCodes,
 } from './types/index.ts';
-import { selectProps } from './utils.ts';
+import {
+    hash,
+    isDeepEqual,
+    removeUndefined,
+    selectProps,
+    stableStringify,
+} from './utils.ts';
+import { InMemoryIdempotencyStore } from './idempotency/index.ts';
+import { InMemoryBrokerAdapter } from './brokers/index.ts';
+import { InMemoryReplayBuffer } from './replay/index.ts';
+import { InMemoryRateLimitStore } from './rate_limit/index.ts';
+import {
+    applySelection,
+    findUndeclaredSelections,
+    getDeclaredResourceNames,
+    getExpansionDepth,
+    mergeSelections,
+} from './selection.ts';
+import { expandResources } from './expansion.ts';
+import { toQuery, validateQuery } from './query.ts';
+import { matchesSubscription } from './subscriptions.ts';
+import { authorize } from './authorization.ts';
+import { checkRateLimits } from './rate_limiting.ts';
+import {
+    runOperationMiddlewares,
+    runRequestMiddlewares,
+} from './middlewares.ts';
+import { buildOperationGraph, runOperationGraph } from './operation_graph.ts';
+import { resolveOperationReferences } from './references.ts';
+import { escapePointer, validateSchema } from './validation/index.ts';
+import { ProtocolV1Processor } from './protocols/index.ts';
 import { exists } from '@std/fs';
 import { generateClient, generateDefinitions } from './client/index.ts';
 
@@ -39,6 +131,14 @@ export class Server {
     private logLevel: LogLevel = LogLevel.INFO;
     private protocolVersion: ProtocolVersion = ProtocolVersions.v1;
 
+    /**
+     * Processors of the supported protocol versions
+     */
+    private protocolProcessors = new Map<
+        ProtocolVersion,
+        ProtocolProcessorInterface
+    >([[ProtocolVersions.v1, new ProtocolV1Processor()]]);
+
     /**
      * List of registered procedure handlers per API
      */
@@ -56,42 +156,51 @@ export class Server {
     >();
 
     /**
-     * Callback function to execute as first step of a request before processing any operation
+     * List of registered query handlers per API
      */
-    private beforeAllFunc?: <R extends Resource>(
-        context: RequestContext,
-    ) => Promise<void>;
+    private registeredQueries = new Map<
+        Api,
+        Map<ResourceName, QueryHandlerInterface>
+    >();
 
     /**
-     * Callback function to execute before processing each operation
+     * List of registered resource resolvers per API, used to expand linked resources
      */
-    private beforeEachFunc?: <R extends Resource>(
-        operationContext: OperationContext,
-        context: RequestContext,
-    ) => Promise<void>;
+    private registeredResourceResolvers = new Map<
+        Api,
+        Map<ResourceName, ResourceResolverInterface>
+    >();
 
     /**
-     * Callback function to execute after processing each operation
+     * Registered authenticators by lower case scheme
      */
-    private afterEachFunc?: <R extends Resource>(
-        operationContext: OperationContext,
-        context: RequestContext,
-    ) => Promise<void>;
+    private registeredAuthenticators = new Map<
+        string,
+        AuthenticatorInterface
+    >();
 
     /**
-     * Callback function to execute after processing all operations in one request
+     * Transaction opened around every atomic request
      */
-    private afterAllFunc?: <R extends Resource>(
-        context: RequestContext,
-    ) => Promise<void>;
+    private transactionHandler?: TransactionHandlerInterface;
+
+    /**
+     * Middlewares wrapping the requests and their operations, in the order they were registered
+     */
+    private registeredMiddlewares: MiddlewareInterface[] = [];
 
     /**
-     * Callback function to execute when an unhandled error occurs
+     * Callback functions to execute when an unhandled error occurs, in the order they were set
      */
-    private onErrorFunc?: <R extends Resource>(
+    private onErrorFuncs: ((
         operationContext: OperationContext,
         error: Error,
-    ) => Promise<JRPCError | undefined>;
+    ) => Promise<JRPCError | undefined>)[] = [];
+
+    /**
+     * Number of outputs not matching the procedure output schema per API, only counted in production
+     */
+    private outputMismatches = new Map<Api, Map<ProcedureName, number>>();
 
     /**
      * List of connected websocket clients
@@ -99,23 +208,105 @@ export class Server {
     private connectedSockets = new Map<string, ServerWebSocket>();
 
     /**
-     * Map of opened websocket connections for each subscription topic
+     * Map of opened websocket connections for each subscription topic, keyed by [api/topic]
      */
-    private subscriptionsByTopics = new Map<
-        string,
-        { context: RequestContext; socket: ServerWebSocket }[]
-    >();
+    private subscriptionsByTopics = new Map<string, TopicSubscriber[]>();
+
+    /**
+     * Topics the instance listens to on the broker, keyed by [api/topic]
+     */
+    private brokerTopics = new Set<string>();
 
     /**
-     * Map of websocket ids and the subscription topics they are listening to
+     * Map of websocket ids and the subscriptions they are listening to
      */
     private socketsInSubscriptions = new Map<
         ServerWebSocketId,
-        { topic: string }[]
+        SocketSubscription[]
     >();
 
+    /**
+     * Id of this server instance, used to tell apart the events published by the other instances
+     */
+    private instanceId = crypto.randomUUID();
+
+    private broker: BrokerAdapterInterface;
+
+    private replayBuffer: ReplayBufferInterface;
+
+    /**
+     * Live events received by the subscriptions still replaying their missed events
+     */
+    private replayQueues = new Map<SubscriptionId, SubscriptionEvent[]>();
+
+    /**
+     * Delivers to the local sockets the events published by the other instances
+     */
+    private brokerListener: BrokerListener = (message) => {
+        if (message.origin == this.instanceId) {
+            return;
+        }
+
+        if (this.replayBuffer.shared) {
+            this.deliverEvent(message.api, message.topic, message.event);
+            return;
+        }
+
+        // the event gets an id of the local buffer, to be replayed by this instance too
+        this.replayBuffer.append(message.api, message.topic, message.event)
+            .then((stored) =>
+                this.deliverEvent(message.api, message.topic, stored)
+            )
+            .catch((e) => this.logBrokerError(message.api, message.topic, e));
+    };
+
+    /**
+     * Limits applied to incoming requests, the payload size is in kilobytes
+     */
+    private requestLimits = { maxInputPayload: 256, maxOperations: 10 };
+
+    /**
+     * Heartbeat and timeouts of the websockets in milliseconds, a zero value disables them
+     */
+    private websocketLimits = {
+        heartbeatInterval: 0,
+        idleTimeout: 0,
+        maxLifetime: 0,
+        maxConnections: Infinity,
+        maxConnectionsPerClient: Infinity,
+        maxSubscriptionsPerSocket: Infinity,
+    };
+
+    /**
+     * Client address, liveness and timers of each connected websocket
+     */
+    private socketStates = new Map<ServerWebSocketId, {
+        clientAddress: string;
+        alive: boolean;
+        heartbeat?: ReturnType<typeof setInterval>;
+        idleTimer?: ReturnType<typeof setTimeout>;
+        lifetimeTimer?: ReturnType<typeof setTimeout>;
+        /**
+         * Credentials sent during the upgrade or in an auth message, reused by every request of the socket
+         */
+        authentication?: ServerRequestAuthentication;
+        principal?: Principal;
+    }>();
+
+    private rateLimitStore: RateLimitStoreInterface;
+
+    /**
+     * Store of the results of operations sent with an idempotency key
+     */
+    private idempotencyStore: IdempotencyStoreInterface;
+
     private corsHeaders: Record<string, string>;
 
+    /**
+     * CORS headers sent with every response, [corsHeaders] adds the preflight ones to them
+     */
+    private originHeaders: Record<string, string>;
+
     constructor(
         private configuration: {
             host: string;
@@ -124,18 +315,116 @@ export class Server {
             cors?: {
                 accessControlAllowOrigin?: string;
             };
+            /**
+             * HTTP status of a request failing as a whole by error code, merged over [defaultHttpStatuses]
+             */
+            httpStatuses?: Record<string, number>;
+            execution?: {
+                /**
+                 * Strategy used when the request does not define one, defaults to sequential
+                 */
+                defaultStrategy?: 'sequential' | 'parallel';
+                /**
+                 * Maximum number of operations of one request running at the same time in parallel mode
+                 */
+                maxConcurrency?: number;
+                /**
+                 * Timeout in milliseconds used when the request does not define one
+                 */
+                defaultOperationTimeout?: number;
+                /**
+                 * Upper bound in milliseconds for the timeout requested by the client
+                 */
+                maxOperationTimeout?: number;
+            };
+            subscriptions?: {
+                /**
+                 * Broker sharing the events between the server instances, defaults to an in-memory broker.
+                 * Instances in separate processes need an adapter over an external broker
+                 */
+                broker?: BrokerAdapterInterface;
+                /**
+                 * Buffer of the last events of each topic replayed to the resumed subscriptions,
+                 * defaults to an in-memory buffer
+                 */
+                replayBuffer?: ReplayBufferInterface;
+                /**
+                 * Bytes a socket can have queued before it is considered a slow consumer, defaults to 1 MB
+                 */
+                maxBufferedAmount?: number;
+                /**
+                 * Defaults to dropping the events of slow consumers
+                 */
+                slowConsumerPolicy?: SlowConsumerPolicy;
+            };
+            rateLimits?: {
+                /**
+                 * Store of the token buckets, defaults to an in-memory store
+                 */
+                store?: RateLimitStoreInterface;
+                rules: RateLimitRule[];
+            };
+            authentication?: {
+                /**
+                 * Cookie holding a bearer token, not read when missing. The cookie is only used by the
+                 * requests whose Origin is the configured [cors.accessControlAllowOrigin], which must not be [*].
+                 * The responses then allow the browsers to send the credentials
+                 */
+                cookieName?: string;
+            };
+            idempotency?: {
+                /**
+                 * Store of the replayable results, defaults to an in-memory store
+                 */
+                store?: IdempotencyStoreInterface;
+                /**
+                 * Time in milliseconds the results are kept, defaults to 24 hours
+                 */
+                ttl?: number;
+                /**
+                 * Time in milliseconds a key stays reserved by its running operation, defaults to 1 minute.
+                 * A server stopping in the meantime does not leave the key unusable for longer
+                 */
+                pendingTtl?: number;
+            };
         },
     ) {
         const allowedHeaders = [
             'Access-Control-Allow-Origin',
             'Access-Control-Allow-Methods',
             'Access-Control-Allow-Headers',
+            'Authorization',
             'Content-Type',
         ];
 
+        this.idempotencyStore = this.configuration.idempotency?.store ??
+            new InMemoryIdempotencyStore();
+
+        this.rateLimitStore = this.configuration.rateLimits?.store ??
+            new InMemoryRateLimitStore();
+
+        this.broker = this.configuration.subscriptions?.broker ??
+            new InMemoryBrokerAdapter();
+
+        this.replayBuffer = this.configuration.subscriptions?.replayBuffer ??
+            new InMemoryReplayBuffer();
+
+        const allowedOrigin = this.configuration.cors?.accessControlAllowOrigin;
+
+        this.originHeaders = {
+            'Access-Control-Allow-Origin': allowedOrigin || '*',
+        };
+
+        // browsers only send the authentication cookie to a single allowed origin
+        if (
+            this.configuration.authentication?.cookieName && allowedOrigin &&
+            allowedOrigin != '*'
+        ) {
+            this.originHeaders['Access-Control-Allow-Credentials'] = 'true';
+        }
+
         this.corsHeaders = {
-            'Access-Control-Allow-Origin':
-                this.configuration.cors?.accessControlAllowOrigin || '*',
+            ...this.originHeaders,
             'Access-Control-Allow-Method': 'POST, GET, OPTIONS',
             'Access-Control-Allow-Headers': allowedHeaders.join(', '),
         };
@@ -210,20 +499,133 @@ export class Server {
     }
 
     /**
-     * Sets a callback function to be executed before any operation is processed
+     * Use this method to register query handlers
+     */
+    public registerQueryHandlers(queryHandlers: QueryHandlerInterface[]) {
+        for (const queryHandler of queryHandlers) {
+            let apiQueries = this.registeredQueries.get(queryHandler.api);
+
+            if (!apiQueries) {
+                apiQueries = new Map<ResourceName, QueryHandlerInterface>();
+                this.registeredQueries.set(queryHandler.api, apiQueries);
+            }
+
+            if (apiQueries.get(queryHandler.resourceName)) {
+                throw new Error(
+                    `[${queryHandler.constructor.name}] is registering query for resource [${queryHandler.resourceName}] which is already registered.`,
+                );
+            }
+
+            apiQueries.set(queryHandler.resourceName, queryHandler);
+        }
+
+        return this;
+    }
+
+    /**
+     * Use this method to register the resolvers loading linked resources
+     */
+    public registerResourceResolvers(
+        resourceResolvers: ResourceResolverInterface[],
+    ) {
+        for (const resourceResolver of resourceResolvers) {
+            let apiResolvers = this.registeredResourceResolvers.get(
+                resourceResolver.api,
+            );
+
+            if (!apiResolvers) {
+                apiResolvers = new Map<
+                    ResourceName,
+                    ResourceResolverInterface
+                >();
+                this.registeredResourceResolvers.set(
+                    resourceResolver.api,
+                    apiResolvers,
+                );
+            }
+
+            if (apiResolvers.get(resourceResolver.resourceName)) {
+                throw new Error(
+                    `[${resourceResolver.constructor.name}] is registering resource [${resourceResolver.resourceName}] which is already registered.`,
+                );
+            }
+
+            apiResolvers.set(resourceResolver.resourceName, resourceResolver);
+        }
+
+        return this;
+    }
+
+    /**
+     * Use this method to verify the request credentials, one authenticator per scheme.
+     * Once one is registered, requests with credentials of an unknown scheme are rejected
+     */
+    public registerAuthenticators(authenticators: AuthenticatorInterface[]) {
+        for (const authenticator of authenticators) {
+            this.registeredAuthenticators.set(
+                authenticator.scheme.toLowerCase(),
+                authenticator,
+            );
+        }
+
+        return this;
+    }
+
+    /**
+     * Use this method to support new protocol versions or replace the processor of an existing one
+     */
+    public registerProtocolProcessors(
+        protocolProcessors: ProtocolProcessorInterface[],
+    ) {
+        for (const protocolProcessor of protocolProcessors) {
+            this.protocolProcessors.set(
+                protocolProcessor.version,
+                protocolProcessor,
+            );
+        }
+
+        return this;
+    }
+
+    /**
+     * Sets the transaction opened around every atomic request, procedure handlers can provide their own
+     */
+    public registerTransactionHandler(
+        transactionHandler: TransactionHandlerInterface,
+    ) {
+        this.transactionHandler = transactionHandler;
+
+        return this;
+    }
+
+    /**
+     * Adds middlewares wrapping the requests and their operations, after the ones already registered
+     */
+    public registerMiddlewares(middlewares: MiddlewareInterface[]) {
+        this.registeredMiddlewares.push(...middlewares);
+
+        return this;
+    }
+
+    /**
+     * Adds a callback function to be executed before any operation is processed
      */
     public beforeAll(
         func: (
             context: RequestContext,
         ) => Promise<void>,
     ) {
-        this.beforeAllFunc = func;
+        return this.registerMiddlewares([{
+            handleRequest: async (_request, context, next) => {
+                await func(context);
 
-        return this;
+                return await next();
+            },
+        }]);
     }
 
     /**
-     * Sets a callback function to be executed before processing each operation
+     * Adds a callback function to be executed before processing each operation
      */
     public beforeEach(
         func: (
@@ -231,13 +633,17 @@ export class Server {
             context: RequestContext,
         ) => Promise<void>,
     ) {
-        this.beforeEachFunc = func;
+        return this.registerMiddlewares([{
+            handleOperation: async (operationContext, context, next) => {
+                await func(operationContext, context);
 
-        return this;
+                return await next();
+            },
+        }]);
     }
 
     /**
-     * Sets a callback function to be executed after each operation is processed
+     * Adds a callback function to be executed once after each operation is processed, failed or not
      */
     public afterEach(
         func: (
@@ -245,26 +651,41 @@ export class Server {
             context: RequestContext,
         ) => Promise<void>,
     ) {
-        this.afterEachFunc = func;
+        return this.registerMiddlewares([{
+            handleOperation: async (operationContext, context, next) => {
+                try {
+                    operationContext.result = await next();
+                } finally {
+                    await func(operationContext, context);
+                }
 
-        return this;
+                return operationContext.result;
+            },
+        }]);
     }
 
     /**
-     * Sets a callback function to be executed after all operations have been processed
+     * Adds a callback function to be executed after all operations have been processed
      */
     public afterAll(
         func: (
             context: RequestContext,
         ) => Promise<void>,
     ) {
-        this.afterAllFunc = func;
+        return this.registerMiddlewares([{
+            handleRequest: async (_request, context, next) => {
+                const response = await next();
 
-        return this;
+                await func(context);
+
+                return response;
+            },
+        }]);
     }
 
     /**
-     * Sets a callback function to be executed when an unhandled error occurs
+     * Adds a callback function to be executed when an unhandled error occurs,
+     * the first error returned by the callbacks replaces the original one
      */
     public onError(
         func: (
@@ -272,7 +693,95 @@ export class Server {
             error: Error,
         ) => Promise<JRPCError | undefined>,
     ) {
-        this.onErrorFunc = func;
+        this.onErrorFuncs.push(func);
+
+        return this;
+    }
+
+    /**
+     * Returns how many times each procedure returned an output not matching its schema in production
+     */
+    public getOutputMismatches(): Map<Api, Map<ProcedureName, number>> {
+        return this.outputMismatches;
+    }
+
+    /**
+     * Returns the subscriptions of the websocket
+     */
+    public getSocketSubscriptions(
+        socketId: ServerWebSocketId,
+    ): SocketSubscription[] {
+        return [...(this.socketsInSubscriptions.get(socketId) ?? [])];
+    }
+
+    /**
+     * Returns the subscribers of the topic the event must be sent to, according to the params
+     * of each subscription
+     */
+    public getTopicSubscribers(
+        api: Api,
+        topic: SubscriptionTopic,
+        event: SubscriptionEvent,
+    ): TopicSubscriber[] {
+        const subscriptionHandler = this.registeredSubscriptions.get(api)
+            ?.get(topic);
+
+        if (!subscriptionHandler) {
+            return [];
+        }
+
+        return (this.subscriptionsByTopics.get(`${api}/${topic}`) ?? [])
+            .filter((e) =>
+                this.matchesSubscriber(subscriptionHandler, e, event) === true
+            );
+    }
+
+    /**
+     * Sends the event to every socket subscribed to the topic whose params match it, on this
+     * instance and through the broker on the other ones. The event is given the next id of the
+     * topic and kept for replay. The result counts the local sockets only
+     */
+    public async publish(
+        api: Api,
+        topic: SubscriptionTopic,
+        event: SubscriptionEvent,
+    ): Promise<PublishResult> {
+        const stored = await this.replayBuffer.append(api, topic, event);
+
+        this.broker.publish({
+            origin: this.instanceId,
+            api,
+            topic,
+            event: this.replayBuffer.shared ? stored : event,
+        }).catch((e) => this.logBrokerError(api, topic, e));
+
+        return this.deliverEvent(api, topic, stored);
+    }
+
+    /**
+     * Returns the number of sockets subscribed to the topic across the instances
+     */
+    public getTopicPresence(
+        api: Api,
+        topic: SubscriptionTopic,
+    ): Promise<number> {
+        return this.broker.getPresence(api, topic);
+    }
+
+    /**
+     * Forcibly ends the subscriptions of the websocket, all of them when none is given
+     */
+    public endSocketSubscriptions(
+        socketId: ServerWebSocketId,
+        subscriptionIds?: SubscriptionId[],
+    ) {
+        const subscriptions = this.getSocketSubscriptions(socketId).filter((
+            e,
+        ) => !subscriptionIds || subscriptionIds.includes(e.subscriptionId));
+
+        for (const subscription of subscriptions) {
+            this.removeSubscription(socketId, subscription);
+        }
 
         return this;
     }
@@ -301,11 +810,42 @@ export class Server {
     public start(options: {
         protocolVersion?: ProtocolVersion;
         requests?: {
+            /**
+             * Maximum size in kilobytes of a request body or websocket message
+             */
             maxInputPayload?: number;
+            /**
+             * Maximum number of operations in one request
+             */
+            maxOperations?: number;
+        };
+        websockets?: {
+            /**
+             * Interval in milliseconds between two pings, a socket not answering before the next one is closed.
+             * Disabled by default, only the clients answering the [ping] messages can use it
+             */
+            heartbeatInterval?: number;
+            /**
+             * Time in milliseconds a socket can stay without sending any request
+             */
+            idleTimeout?: number;
+            /**
+             * Time in milliseconds after which a socket is closed, whatever its activity
+             */
+            maxLifetime?: number;
+            maxConnections?: number;
+            /**
+             * Maximum number of sockets opened from the same client address
+             */
+            maxConnectionsPerClient?: number;
+            /**
+             * Maximum number of subscriptions of one socket, a socket going over it is closed
+             */
+            maxSubscriptionsPerSocket?: number;
         };
     } = {
         protocolVersion: ProtocolVersions.v1,
-        requests: { maxInputPayload: 256 },
+        requests: { maxInputPayload: 256, maxOperations: 10 },
     }): void {
         const hostname = this.configuration.host;
         const port = this.configuration.port;
@@ -314,10 +854,23 @@ export class Server {
             if (options.protocolVersion) {
                 this.protocolVersion = options.protocolVersion;
             }
+
+            this.requestLimits = {
+                ...this.requestLimits,
+                ...removeUndefined(options.requests ?? {}),
+            };
+
+            this.websocketLimits = {
+                ...this.websocketLimits,
+                ...removeUndefined(options.websockets ?? {}),
+            };
         }
 
-        const handler = (req: Request) => {
-            return this.handler(req);
+        const handler = (
+            req: Request,
+            info: Deno.ServeHandlerInfo<Deno.NetAddr>,
+        ) => {
+            return this.handler(req, info.remoteAddr.hostname);
         };
 
         const server = Deno.serve({
@@ -338,33 +891,36 @@ export class Server {
     /**
      * Handles incoming requests
      */
-    private async handler(req: Request): Promise<Response> {
+    private async handler(
+        req: Request,
+        clientAddress: string,
+    ): Promise<Response> {
         if (!req.headers.get('upgrade')) {
-            return (await this.handleHTTPRequest(req));
+            return (await this.handleHTTPRequest(req, clientAddress));
         }
 
         if (req.headers.get('upgrade') != 'websocket') {
-            const response: ServerResponseError = {
-                jrpc: this.protocolVersion,
-                api: 'unknown',
-                error: toErrorResponse(new UpgradeRequestNotSupported()),
-            };
-
-            return Response.json(response, { status: 501 });
+            return this.toHTTPErrorResponse(
+                this.toServerResponseError(new UpgradeRequestNotSupported()),
+            );
         }
 
-        return this.handleWebsocketRequest(req);
+        return this.handleWebsocketRequest(req, clientAddress);
     }
 
     /**
      * Handles request coming through HTTP
      */
-    private async handleHTTPRequest(req: Request): Promise<Response> {
+    private async handleHTTPRequest(
+        req: Request,
+        clientAddress?: string,
+    ): Promise<Response> {
         if (req.method === HttpMethod.GET) {
             const url = new URL(req.url);
             if (url.pathname == '/definitions') {
                 const response = generateDefinitions(
                     this.registeredProcedures,
+                    this.registeredSubscriptions,
                 );
                 return Response.json(response, { status: 200 });
             }
@@ -378,363 +934,1912 @@ export class Server {
         }
 
         if (req.method !== HttpMethod.POST) {
-            const response: ServerResponseError = {
-                jrpc: this.protocolVersion,
-                api: 'unknown',
-                error: toErrorResponse(new RequestMethodNotSupported()),
-            };
-
-            return Response.json(response, { status: 405 });
+            return this.toHTTPErrorResponse(
+                this.toServerResponseError(new RequestMethodNotSupported()),
+            );
         }
 
         if (!req.body) {
-            const response: ServerResponseError = {
-                jrpc: this.protocolVersion,
-                api: 'unknown',
-                error: toErrorResponse(new ExpectedRequestBodyContent()),
-            };
-
-            return Response.json(response, { status: 400 });
+            return this.toHTTPErrorResponse(
+                this.toServerResponseError(new ExpectedRequestBodyContent()),
+            );
         }
 
-        const bodyReader = req.body.getReader();
-        let bodyContent: number[] = [];
+        let request: ServerRequest | undefined;
+        let envelope: RequestEnvelope | undefined;
 
-        while (true) {
-            const chunk = await bodyReader.read();
+        try {
+            const payload = this.decodePayload(await this.readBody(req));
 
-            if (chunk.done) {
-                break;
-            }
+            envelope = this.readEnvelope(payload);
+            request = this.parseRequest(payload);
+
+            // the credentials of the body take precedence over the ones of the headers
+            request = {
+                ...request,
+                authentication: request.authentication ??
+                    this.readCredentials(req),
+            };
 
-            bodyContent = [...bodyContent, ...chunk.value];
+            const serverResponse = await this.processRequest(
+                request,
+                undefined,
+                clientAddress,
+            );
+            return Response.json(this.formatResponse(serverResponse), {
+                status: 200,
+                headers: this.originHeaders,
+            });
+        } catch (e) {
+            return this.toHTTPErrorResponse(
+                this.toServerResponseError(e, request ?? envelope),
+            );
         }
+    }
 
-        const rawContent = new TextDecoder().decode(
-            new Uint8Array(bodyContent),
-        );
+    /**
+     * Builds the response of a request failing as a whole, the unexpected errors are logged
+     */
+    private toServerResponseError(
+        e: unknown,
+        envelope?: RequestEnvelope,
+    ): ServerResponseError {
+        if (!(e instanceof JRPCError) && this.logLevel <= LogLevel.ERROR) {
+            console.error(`[${envelope?.api ?? 'unknown'}] request failed.`, e);
+        }
 
-        let request: ServerRequest;
+        return {
+            jrpc: envelope?.jrpc ?? this.protocolVersion,
+            api: envelope?.api ?? 'unknown',
+            error: toErrorResponse(
+                e instanceof JRPCError ? e : new UnhandledError(e as Error),
+            ),
+        };
+    }
 
-        try {
-            request = JSON.parse(rawContent);
-        } catch (e) {
-            const response: ServerResponseError = {
-                jrpc: this.protocolVersion,
-                api: 'unknown',
-                error: toErrorResponse(new InvalidJsonContent()),
-            };
+    /**
+     * Sends the failed request with the HTTP status configured for its error code, 500 when missing
+     */
+    private toHTTPErrorResponse(response: ServerResponseError): Response {
+        const code = response.error.code;
+        const headers: Record<string, string> = { ...this.originHeaders };
 
-            return Response.json(response, { status: 400 });
+        if (response.error.retry_after !== undefined) {
+            headers['Retry-After'] = String(response.error.retry_after);
         }
 
-        try {
-            const serverResponse = await this.processRequest(request);
-            return Response.json(serverResponse, {
-                status: 200,
-                headers: {
-                    'Access-Control-Allow-Origin': this.configuration.cors
-                        ?.accessControlAllowOrigin || '*',
-                },
-            });
-        } catch (e) {
-            //todo: process the error
-            throw e;
-        }
+        return Response.json(this.formatError(response), {
+            status: this.configuration.httpStatuses?.[code] ??
+                defaultHttpStatuses[code as ErrorCodes] ?? 500,
+            headers,
+        });
     }
 
     /**
      * Handles request coming through WebSockets
      */
-    private handleWebsocketRequest(req: Request): Response {
+    private async handleWebsocketRequest(
+        req: Request,
+        clientAddress: string,
+    ): Promise<Response> {
+        const authentication = this.readCredentials(req);
+        let principal: Principal | undefined;
+
+        try {
+            principal = await this.authenticate(authentication);
+        } catch (e) {
+            return this.toHTTPErrorResponse(this.toServerResponseError(e));
+        }
+
         const webSocketUpgrade = Deno.upgradeWebSocket(req);
         const socket = webSocketUpgrade.socket as ServerWebSocket;
 
         socket.id = crypto.randomUUID() as ServerWebSocketId;
+
+        // the connection is accepted to tell the client why it is closed right away
+        const rejection = this.checkConnectionLimits(clientAddress);
+
+        if (rejection) {
+            socket.addEventListener('open', () => {
+                this.closeSocket(socket, rejection.closeCode, rejection.error);
+            });
+
+            return webSocketUpgrade.response;
+        }
+
         this.connectedSockets.set(socket.id, socket);
+        this.socketStates.set(socket.id, {
+            clientAddress,
+            alive: true,
+            authentication,
+            principal,
+        });
 
         socket.addEventListener('open', () => {
             if (this.logLevel <= LogLevel.INFO) {
                 console.log(`ws: ${socket.id} client connected.`);
             }
+
+            this.startSocketTimers(socket);
         });
         socket.addEventListener('message', async (event) => {
-            if (!event.data) {
-                const response: ServerResponseError = {
-                    jrpc: this.protocolVersion,
-                    api: 'unknown',
-                    error: toErrorResponse(new ExpectedRequestBodyContent()),
-                };
+            const state = this.socketStates.get(socket.id);
 
-                socket.send(JSON.stringify(response));
-                return;
+            if (state) {
+                state.alive = true;
             }
 
-            let request;
+            let request: ServerRequest | undefined;
+            let envelope: RequestEnvelope | undefined;
 
             try {
-                request = JSON.parse(event.data);
-            } catch (_e) {
-                const response: ServerResponseError = {
-                    jrpc: this.protocolVersion,
-                    api: 'unknown',
-                    error: toErrorResponse(new InvalidJsonContent()),
-                };
+                if (!event.data) {
+                    throw new ExpectedRequestBodyContent();
+                }
 
-                socket.send(JSON.stringify(response));
-                return;
-            }
+                const message = this.readMessage(event.data);
+                const controlMessage = this.readControlMessage(message);
 
-            // todo: validate the input JSON payload
+                if (controlMessage?.type == 'pong') {
+                    return;
+                }
 
-            const result = await this.processRequest(request, socket);
+                if (controlMessage?.type == 'auth') {
+                    await this.authenticateSocket(socket, controlMessage);
+                    return;
+                }
 
-            socket.send(JSON.stringify(result));
-        });
+                this.resetIdleTimer(socket);
 
-        socket.addEventListener('close', () => {
-            if (this.logLevel <= LogLevel.INFO) {
-                console.log(`ws: ${socket.id} client disconnected.`);
+                const payload = this.decodePayload(message);
+
+                envelope = this.readEnvelope(payload);
+                request = this.parseRequest(payload);
+
+                const result = await this.processRequest(request, socket);
+
+                if (socket.readyState === WebSocket.OPEN) {
+                    socket.send(JSON.stringify(this.formatResponse(result)));
+                }
+            } catch (e) {
+                this.sendSocketError(socket, e, request ?? envelope);
+            }
+        });
+
+        socket.addEventListener('close', () => {
+            if (this.logLevel <= LogLevel.INFO) {
+                console.log(`ws: ${socket.id} client disconnected.`);
+            }
+
+            this.connectedSockets.delete(socket.id);
+            this.clearSocketTimers(socket.id);
+
+            // closing registered subscriptions
+            const topics = new Map<string, SocketSubscription>();
+
+            for (
+                const subscription of this.getSocketSubscriptions(socket.id)
+            ) {
+                this.removeSubscription(socket.id, subscription, false);
+                topics.set(
+                    `${subscription.api}/${subscription.topic}`,
+                    subscription,
+                );
+            }
+
+            for (const subscription of topics.values()) {
+                this.registeredSubscriptions.get(subscription.api)
+                    ?.get(subscription.topic)
+                    ?.onSocketDisconnected(socket.id);
+            }
+        });
+
+        return webSocketUpgrade.response;
+    }
+
+    private checkConnectionLimits(
+        clientAddress: string,
+    ): { closeCode: WebSocketCloseCodes; error: JRPCError } | undefined {
+        const { maxConnections, maxConnectionsPerClient } =
+            this.websocketLimits;
+
+        if (this.socketStates.size >= maxConnections) {
+            return {
+                closeCode: WebSocketCloseCodes.TOO_MANY_CONNECTIONS,
+                error: new TooManyConnections(maxConnections),
+            };
+        }
+
+        const clientConnections = [...this.socketStates.values()]
+            .filter((e) => e.clientAddress == clientAddress).length;
+
+        if (clientConnections >= maxConnectionsPerClient) {
+            return {
+                closeCode: WebSocketCloseCodes.TOO_MANY_CLIENT_CONNECTIONS,
+                error: new TooManyClientConnections(maxConnectionsPerClient),
+            };
+        }
+
+        return undefined;
+    }
+
+    private startSocketTimers(socket: ServerWebSocket) {
+        const state = this.socketStates.get(socket.id);
+        const { heartbeatInterval, maxLifetime } = this.websocketLimits;
+
+        if (!state) {
+            return;
+        }
+
+        if (heartbeatInterval > 0) {
+            state.heartbeat = setInterval(() => {
+                if (!state.alive) {
+                    this.closeSocket(
+                        socket,
+                        WebSocketCloseCodes.HEARTBEAT_TIMEOUT,
+                        new HeartbeatTimeout(),
+                    );
+
+                    return;
+                }
+
+                state.alive = false;
+
+                const ping: HeartbeatMessage = {
+                    type: 'ping',
+                    timestamp: Date.now(),
+                };
+
+                socket.send(JSON.stringify(ping));
+            }, heartbeatInterval);
+        }
+
+        if (maxLifetime > 0) {
+            state.lifetimeTimer = setTimeout(() => {
+                this.closeSocket(
+                    socket,
+                    WebSocketCloseCodes.CONNECTION_LIFETIME_EXCEEDED,
+                    new ConnectionLifetimeExceeded(maxLifetime),
+                );
+            }, maxLifetime);
+        }
+
+        this.resetIdleTimer(socket);
+    }
+
+    private resetIdleTimer(socket: ServerWebSocket) {
+        const state = this.socketStates.get(socket.id);
+        const idleTimeout = this.websocketLimits.idleTimeout;
+
+        if (!state || idleTimeout <= 0) {
+            return;
+        }
+
+        clearTimeout(state.idleTimer);
+
+        state.idleTimer = setTimeout(() => {
+            this.closeSocket(
+                socket,
+                WebSocketCloseCodes.IDLE_TIMEOUT,
+                new IdleTimeout(idleTimeout),
+            );
+        }, idleTimeout);
+    }
+
+    private clearSocketTimers(socketId: ServerWebSocketId) {
+        const state = this.socketStates.get(socketId);
+
+        if (state) {
+            clearInterval(state.heartbeat);
+            clearTimeout(state.idleTimer);
+            clearTimeout(state.lifetimeTimer);
+        }
+
+        this.socketStates.delete(socketId);
+    }
+
+    /**
+     * Returns the pong and auth messages, requests are left to the protocol processor
+     */
+    private readControlMessage(
+        message: string,
+    ): HeartbeatMessage | AuthMessage | undefined {
+        if (message.includes('"jrpc"')) {
+            return undefined;
+        }
+
+        try {
+            const parsed = JSON.parse(message);
+
+            return ['pong', 'auth'].includes(parsed?.type) ? parsed : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Replaces the credentials of the socket, used by its following requests
+     */
+    private async authenticateSocket(
+        socket: ServerWebSocket,
+        message: AuthMessage,
+    ) {
+        const state = this.socketStates.get(socket.id);
+        const authentication = message.authentication;
+
+        if (!state) {
+            return;
+        }
+
+        try {
+            if (
+                typeof authentication?.scheme != 'string' ||
+                typeof authentication?.token != 'string'
+            ) {
+                throw new NotAuthenticatedError(
+                    'The auth message must contain the scheme and the token of the credentials.',
+                );
+            }
+
+            state.principal = await this.authenticate(authentication);
+            state.authentication = authentication;
+        } catch (e) {
+            state.principal = undefined;
+            state.authentication = undefined;
+
+            this.sendSocketError(socket, e);
+
+            return;
+        }
+
+        const result: AuthResultMessage = {
+            type: 'auth',
+            subject: state.principal?.subject,
+            expires_at: state.principal?.expiresAt,
+        };
+
+        socket.send(JSON.stringify(result));
+    }
+
+    /**
+     * Returns the principal the socket authenticated with, failing once its credentials expired
+     */
+    private getSocketPrincipal(
+        socket?: ServerWebSocket,
+    ): Principal | undefined {
+        const state = socket && this.socketStates.get(socket.id);
+        const principal = state?.principal;
+
+        if (
+            state && principal?.expiresAt !== undefined &&
+            principal.expiresAt <= Date.now()
+        ) {
+            state.principal = undefined;
+            state.authentication = undefined;
+
+            throw new NotAuthenticatedError(
+                'The credentials of the connection have expired, send an auth message to authenticate again.',
+            );
+        }
+
+        return principal;
+    }
+
+    /**
+     * Reads the credentials of the Authorization header or, without it, of the token cookie
+     * when the request comes from the allowed origin
+     */
+    private readCredentials(
+        req: Request,
+    ): ServerRequestAuthentication | undefined {
+        const header = req.headers.get('authorization')?.trim();
+
+        if (header) {
+            const [scheme, ...token] = header.split(/\s+/);
+
+            return token.length > 0
+                ? { scheme: scheme.toLowerCase(), token: token.join(' ') }
+                : undefined;
+        }
+
+        const cookieName = this.configuration.authentication?.cookieName;
+        const allowedOrigin = this.configuration.cors?.accessControlAllowOrigin;
+
+        // the browsers send the cookies along the cross-site requests too
+        if (
+            !cookieName || !allowedOrigin || allowedOrigin == '*' ||
+            req.headers.get('origin') !== allowedOrigin
+        ) {
+            return undefined;
+        }
+
+        const cookie = (req.headers.get('cookie') ?? '').split(';')
+            .map((e) => e.trim())
+            .find((e) => e.startsWith(`${cookieName}=`));
+
+        if (!cookie) {
+            return undefined;
+        }
+
+        try {
+            return {
+                scheme: 'bearer',
+                token: decodeURIComponent(cookie.slice(cookieName.length + 1)),
+            };
+        } catch {
+            return undefined;
+        }
+    }
+
+    private sendSocketError(
+        socket: ServerWebSocket,
+        e: unknown,
+        envelope?: RequestEnvelope,
+    ) {
+        const response = this.toServerResponseError(e, envelope);
+
+        if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(this.formatError(response)));
+        }
+    }
+
+    /**
+     * Sends the error to the websocket before closing it with the close code
+     */
+    private closeSocket(
+        socket: ServerWebSocket,
+        closeCode: WebSocketCloseCodes,
+        error: JRPCError,
+    ) {
+        try {
+            this.sendSocketError(socket, error);
+
+            socket.close(closeCode, error.code);
+        } catch (e) {
+            if (this.logLevel <= LogLevel.ERROR) {
+                console.error(`ws: ${socket.id} failed to close.`, e);
+            }
+        }
+
+        // the close event may come late on a half-open connection
+        this.clearSocketTimers(socket.id);
+    }
+
+    /**
+     * Reads the request body as a stream, stopping as soon as it goes over the payload limit
+     */
+    private async readBody(req: Request): Promise<string> {
+        const limit = this.requestLimits.maxInputPayload * 1024;
+        const contentLength = Number(req.headers.get('content-length'));
+
+        if (contentLength > limit) {
+            await req.body?.cancel();
+            throw new PayloadTooLarge(this.requestLimits.maxInputPayload);
+        }
+
+        const bodyReader = req.body!.getReader();
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+
+        while (true) {
+            const chunk = await bodyReader.read();
+
+            if (chunk.done) {
+                break;
+            }
+
+            size += chunk.value.byteLength;
+
+            if (size > limit) {
+                await bodyReader.cancel();
+                throw new PayloadTooLarge(this.requestLimits.maxInputPayload);
+            }
+
+            chunks.push(chunk.value);
+        }
+
+        const bodyContent = new Uint8Array(size);
+        let offset = 0;
+
+        for (const chunk of chunks) {
+            bodyContent.set(chunk, offset);
+            offset += chunk.byteLength;
+        }
+
+        return new TextDecoder().decode(bodyContent);
+    }
+
+    /**
+     * Decodes a websocket message, rejecting it when it goes over the payload limit
+     */
+    private readMessage(data: string | ArrayBuffer): string {
+        const content = typeof data == 'string'
+            ? new TextEncoder().encode(data)
+            : new Uint8Array(data);
+
+        if (content.byteLength > this.requestLimits.maxInputPayload * 1024) {
+            throw new PayloadTooLarge(this.requestLimits.maxInputPayload);
+        }
+
+        return typeof data == 'string' ? data : new TextDecoder().decode(data);
+    }
+
+    private decodePayload(rawContent: string): unknown {
+        try {
+            return JSON.parse(rawContent);
+        } catch (_e) {
+            throw new InvalidJsonContent();
+        }
+    }
+
+    /**
+     * Reads the version and the Api of the payload when they are valid, for the errors
+     * of a request failing before it is fully parsed
+     */
+    private readEnvelope(payload: unknown): RequestEnvelope {
+        const { jrpc, api } = (payload ?? {}) as Record<string, unknown>;
+
+        return {
+            jrpc: typeof jrpc == 'string' &&
+                    this.protocolProcessors.has(jrpc as ProtocolVersion)
+                ? jrpc as ProtocolVersion
+                : undefined,
+            api: typeof api == 'string' && api !== '' ? api as Api : undefined,
+        };
+    }
+
+    /**
+     * Parses the decoded payload with the processor of its protocol version
+     * and validates the dependencies declared between its operations
+     */
+    private parseRequest(payload: unknown): ServerRequest {
+        const operations = (payload as Record<string, unknown> | null)
+            ?.operations;
+
+        if (
+            Array.isArray(operations) &&
+            operations.length > this.requestLimits.maxOperations
+        ) {
+            throw new TooManyOperations(this.requestLimits.maxOperations);
+        }
+
+        const version = (payload as Record<string, unknown> | null)?.jrpc;
+
+        if (typeof version != 'string') {
+            throw new InvalidRequest([{
+                path: '/jrpc',
+                keyword: 'required',
+                expected: 'jrpc',
+                message: 'The property [jrpc] is required.',
+            }]);
+        }
+
+        const protocolProcessor = this.protocolProcessors.get(
+            version as ProtocolVersion,
+        );
+
+        if (!protocolProcessor) {
+            throw new ProtocolVersionNotSupported(
+                version,
+                [...this.protocolProcessors.keys()],
+            );
+        }
+
+        const request = protocolProcessor.parseRequest(payload);
+
+        buildOperationGraph(request.operations);
+
+        return request;
+    }
+
+    /**
+     * Translates the response into the envelope of the protocol version used by the request
+     */
+    private formatResponse(response: ServerResponse): unknown {
+        return this.protocolProcessors.get(response.jrpc)!.formatResponse(
+            response,
+        );
+    }
+
+    /**
+     * Translates the error into the envelope of its protocol version, the default one
+     * when the version of the request could not be read
+     */
+    private formatError(response: ServerResponseError): unknown {
+        return (this.protocolProcessors.get(response.jrpc) ??
+            this.protocolProcessors.get(this.protocolVersion)!)
+            .formatError(response);
+    }
+
+    private async processRequest(
+        request: ServerRequest,
+        socket?: ServerWebSocket,
+        clientAddress?: string,
+    ): Promise<ServerResponse> {
+        const { jrpc, api: apiVersion, operations } = request;
+
+        const serverResponse: ServerResponse = {
+            jrpc,
+            api: apiVersion,
+            operations: {},
+            resources: {},
+        };
+
+        const context: RequestContext = {
+            authentication: request.authentication ??
+                (socket && this.socketStates.get(socket.id)?.authentication),
+            clientAddress: clientAddress ??
+                (socket && this.socketStates.get(socket.id)?.clientAddress),
+            executionStrategy: request.settings?.execution_strategy ??
+                this.configuration.execution?.defaultStrategy ?? 'sequential',
+            operationTimeout: this.resolveOperationTimeout(
+                request.settings?.operation_timeout,
+            ),
+            atomic: request.settings?.atomic ?? false,
+            idempotencyKey: request.settings?.idempotency_key,
+        };
+
+        // a request sent with its own credentials does not use the ones of the socket
+        context.principal = request.authentication
+            ? await this.authenticate(request.authentication)
+            : this.getSocketPrincipal(socket);
+
+        await checkRateLimits(
+            this.rateLimitStore,
+            this.configuration.rateLimits?.rules ?? [],
+            request.api,
+            undefined,
+            context,
+        );
+
+        if (context.atomic) {
+            this.checkAtomicSupport(request);
+        }
+
+        return await runRequestMiddlewares(
+            this.registeredMiddlewares,
+            request,
+            context,
+            async () => {
+                const graph = buildOperationGraph(operations);
+                const runOperation = (operation: Operation) =>
+                    this.runOperation(
+                        request,
+                        operation,
+                        graph.get(operation.id) ?? new Set(),
+                        context,
+                        serverResponse,
+                        socket,
+                    );
+
+                let transactionError: ErrorResponse | undefined;
+
+                if (context.atomic) {
+                    transactionError = await this.beginTransactions(
+                        request,
+                        context,
+                    );
+                }
+
+                if (!transactionError) {
+                    await runOperationGraph(
+                        graph,
+                        operations,
+                        context.executionStrategy === 'parallel'
+                            ? this.configuration.execution?.maxConcurrency ??
+                                Infinity
+                            : 1,
+                        runOperation,
+                    );
+                }
+
+                if (context.atomic) {
+                    await this.completeTransactions(
+                        request,
+                        context,
+                        serverResponse,
+                        transactionError,
+                    );
+                }
+
+                await this.expandLinkedResources(
+                    request,
+                    context,
+                    serverResponse,
+                );
+
+                this.returnSelectedProps(request, serverResponse);
+
+                return serverResponse;
+            },
+        );
+    }
+
+    /**
+     * Verifies the credentials with the authenticator of their scheme. Without any registered
+     * authenticator the credentials are left unverified for the hooks to check
+     */
+    private async authenticate(
+        authentication?: ServerRequestAuthentication,
+    ): Promise<Principal | undefined> {
+        if (!authentication || this.registeredAuthenticators.size === 0) {
+            return undefined;
+        }
+
+        const authenticator = this.registeredAuthenticators.get(
+            authentication.scheme.toLowerCase(),
+        );
+
+        if (!authenticator) {
+            throw new NotAuthenticatedError(
+                `The authentication scheme [${authentication.scheme}] is not supported.`,
+            );
+        }
+
+        return await authenticator.authenticate(authentication);
+    }
+
+    private getAuthorizationRequirements(
+        api: Api,
+        operation: Operation,
+    ): AuthorizationRequirements | undefined {
+        if (operation.type == 'execute') {
+            return this.registeredProcedures.get(api)
+                ?.get(operation.procedure)?.authorization;
+        }
+
+        if (operation.type == 'subscribe') {
+            return this.registeredSubscriptions.get(api)
+                ?.get(operation.topic)?.authorization;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Runs one operation of the request together with its hooks and stores the outcome in the response.
+     * The operation is skipped when one of its prerequisites, declared or referenced, failed
+     */
+    private async runOperation(
+        request: ServerRequest,
+        operation: Operation,
+        prerequisites: Set<OperationId>,
+        context: RequestContext,
+        serverResponse: ServerResponse,
+        socket?: ServerWebSocket,
+    ): Promise<void> {
+        const api = request.api;
+
+        // once an atomic request has a failed operation the rest of them are aborted
+        if (context.atomic && this.findFailedOperation(serverResponse)) {
+            return;
+        }
+
+        const failedDependency = [...prerequisites].find((id) => {
+            const results = serverResponse.operations[id];
+            return !results || 'error' in results;
+        });
+
+        if (failedDependency !== undefined) {
+            this.processOperationError(
+                new OperationSkipped(failedDependency),
+                operation,
+                serverResponse,
+            );
+
+            return;
+        }
+
+        if (operation.type == 'execute' && operation.input) {
+            try {
+                operation = {
+                    ...operation,
+                    input: resolveOperationReferences(
+                        operation.input,
+                        serverResponse,
+                        request.operations.map((e) => e.id),
+                    ),
+                };
+            } catch (e) {
+                this.processOperationError(
+                    e as JRPCError,
+                    operation,
+                    serverResponse,
+                );
+
+                return;
+            }
+        }
+
+        const operationContext: OperationContext = {
+            api,
+            operation: operation,
+            result: undefined,
+        };
+
+        try {
+            await authorize(
+                this.getAuthorizationRequirements(api, operation),
+                context,
+                operationContext,
+            );
+
+            if (operation.type == 'execute') {
+                await checkRateLimits(
+                    this.rateLimitStore,
+                    this.configuration.rateLimits?.rules ?? [],
+                    api,
+                    operation.procedure,
+                    context,
+                );
+            }
+        } catch (e) {
+            this.processOperationError(
+                e instanceof JRPCError ? e : new UnhandledError(e as Error),
+                operation,
+                serverResponse,
+            );
+
+            return;
+        }
+
+        try {
+            const result = await runOperationMiddlewares(
+                this.registeredMiddlewares,
+                operationContext,
+                context,
+                async () => {
+                    this.checkRequestReturnSelection(
+                        request,
+                        operationContext.operation,
+                    );
+
+                    const result = await this.processOperationWithTimeout(
+                        api,
+                        operationContext.operation,
+                        context,
+                        operationContext,
+                        socket,
+                    );
+
+                    this.checkRequestReturnSelection(
+                        request,
+                        operationContext.operation,
+                        result,
+                    );
+
+                    return result;
+                },
+            );
+
+            operationContext.result = result;
+
+            this.processOperationResult(
+                result,
+                operation,
+                serverResponse,
+                operationContext,
+            );
+        } catch (e) {
+            this.processOperationError(
+                e instanceof JRPCError ? e : new UnhandledError(e as Error),
+                operation,
+                serverResponse,
+            );
+        }
+    }
+
+    /**
+     * Processes the operation, failing it when it does not complete within the request operation timeout.
+     * The handler can listen to the abort signal in the operation context to stop its work
+     */
+    private async processOperationWithTimeout(
+        api: Api,
+        operation: Operation,
+        context: RequestContext,
+        operationContext: OperationContext,
+        socket?: ServerWebSocket,
+    ): Promise<OperationOutput> {
+        const timeout = context.operationTimeout;
+
+        if (!timeout) {
+            return this.processOperation(
+                api,
+                operation,
+                context,
+                operationContext,
+                socket,
+            );
+        }
+
+        const controller = new AbortController();
+        operationContext.signal = controller.signal;
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const timeoutPromise = new Promise<never>((_resolve, reject) => {
+            timer = setTimeout(() => {
+                const error = new OperationTimeout(timeout);
+                controller.abort(error);
+                reject(error);
+            }, timeout);
+        });
+
+        try {
+            return await Promise.race([
+                this.processOperation(
+                    api,
+                    operation,
+                    context,
+                    operationContext,
+                    socket,
+                ),
+                timeoutPromise,
+            ]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Rejects an atomic request executing procedures no transaction covers,
+     * as their changes could not be rolled back
+     */
+    private checkAtomicSupport(request: ServerRequest) {
+        if (this.transactionHandler) {
+            return;
+        }
+
+        const apiProcedures = this.registeredProcedures.get(request.api);
+        const uncovered = new Set<ProcedureName>();
+
+        for (const operation of request.operations) {
+            if (operation.type != 'execute') {
+                continue;
+            }
+
+            const procedureHandler = apiProcedures?.get(operation.procedure);
+
+            if (procedureHandler && !procedureHandler.transaction) {
+                uncovered.add(operation.procedure);
+            }
+        }
+
+        if (uncovered.size > 0) {
+            throw new AtomicNotSupported([...uncovered]);
+        }
+    }
+
+    /**
+     * Opens the server transaction and the ones of the procedures used by the atomic request,
+     * returns the error of the first one failing to begin
+     */
+    private async beginTransactions(
+        request: ServerRequest,
+        context: RequestContext,
+    ): Promise<ErrorResponse | undefined> {
+        const transactionHandlers = new Set<TransactionHandlerInterface>();
+
+        if (this.transactionHandler) {
+            transactionHandlers.add(this.transactionHandler);
+        }
+
+        const apiProcedures = this.registeredProcedures.get(request.api);
+
+        for (const operation of request.operations) {
+            if (operation.type != 'execute') {
+                continue;
+            }
+
+            const transaction = apiProcedures?.get(operation.procedure)
+                ?.transaction;
+
+            if (transaction) {
+                transactionHandlers.add(transaction);
+            }
+        }
+
+        context.transactions = new Map();
+
+        for (const transactionHandler of transactionHandlers) {
+            try {
+                context.transactions.set(
+                    transactionHandler,
+                    await transactionHandler.begin(context),
+                );
+            } catch (e) {
+                return toErrorResponse(
+                    e instanceof JRPCError ? e : new UnhandledError(e as Error),
+                );
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Commits the transactions of an atomic request when all its operations succeeded,
+     * otherwise rolls them back and reports every operation as aborted. A commit failing
+     * after others succeeded is reported as a partial commit
+     */
+    private async completeTransactions(
+        request: ServerRequest,
+        context: RequestContext,
+        serverResponse: ServerResponse,
+        transactionError?: ErrorResponse,
+    ) {
+        const transactions = [...(context.transactions ?? [])];
+        const committed = new Set<TransactionHandlerInterface>();
+        let failure:
+            | { operationId?: OperationId; error: ErrorResponse }
+            | undefined = transactionError
+                ? { error: transactionError }
+                : undefined;
+
+        const failedOperation = this.findFailedOperation(serverResponse);
+
+        if (!failure && failedOperation) {
+            failure = {
+                operationId: failedOperation[0],
+                error: failedOperation[1],
+            };
+        }
+
+        if (!failure) {
+            while (transactions.length > 0) {
+                const [transactionHandler, state] = transactions[0];
+
+                try {
+                    await transactionHandler.commit(state, context);
+                } catch (e) {
+                    failure = {
+                        error: toErrorResponse(
+                            e instanceof JRPCError
+                                ? e
+                                : new UnhandledError(e as Error),
+                        ),
+                    };
+                    break;
+                }
+
+                committed.add(transactionHandler);
+                transactions.shift();
+            }
+
+            if (!failure) {
+                return;
             }
+        }
+
+        for (const [transactionHandler, state] of transactions.reverse()) {
+            try {
+                await transactionHandler.rollback(state, context);
+            } catch (e) {
+                if (this.logLevel <= LogLevel.ERROR) {
+                    console.error(
+                        `[${transactionHandler.constructor.name}] failed to rollback.`,
+                        e,
+                    );
+                }
+            }
+        }
+
+        if (committed.size > 0) {
+            await this.reportPartialCommit(
+                request,
+                context,
+                serverResponse,
+                committed,
+                failure.error,
+            );
+
+            return;
+        }
+
+        serverResponse.resources = {};
+
+        // the rolled back results must not be replayed when the request is retried,
+        // the records replayed from an earlier request were committed and are kept
+        for (const idempotencyKey of context.idempotencyKeys?.values() ?? []) {
+            await this.idempotencyStore.delete(idempotencyKey);
+        }
+
+        for (const operation of request.operations) {
+            const reason = failure.operationId
+                ? `The operation [${failure.operationId}] failed.`
+                : 'The transaction of the request failed.';
+
+            serverResponse.operations[operation.id] = {
+                error: toErrorResponse(
+                    new BatchAborted(
+                        reason,
+                        operation.id === failure.operationId ||
+                            !failure.operationId
+                            ? failure.error
+                            : undefined,
+                    ),
+                ),
+            };
+        }
+    }
+
+    /**
+     * Fails the operations whose transaction was rolled back after other transactions were
+     * committed. The operations of the committed transactions keep their results and
+     * idempotency records
+     */
+    private async reportPartialCommit(
+        request: ServerRequest,
+        context: RequestContext,
+        serverResponse: ServerResponse,
+        committed: Set<TransactionHandlerInterface>,
+        error: ErrorResponse,
+    ) {
+        const apiProcedures = this.registeredProcedures.get(request.api);
+        const resources = serverResponse.resources;
+
+        serverResponse.resources = {};
+
+        for (const operation of request.operations) {
+            const transaction = operation.type == 'execute'
+                ? apiProcedures?.get(operation.procedure)?.transaction ??
+                    this.transactionHandler
+                : undefined;
+            const results = serverResponse.operations[operation.id];
+
+            if (!transaction || committed.has(transaction)) {
+                if (results && 'result' in results) {
+                    for (const reference of [results.result ?? []].flat()) {
+                        serverResponse.resources[reference] =
+                            resources[reference];
+                    }
+                }
+
+                continue;
+            }
+
+            const idempotencyKey = context.idempotencyKeys?.get(operation.id);
+
+            if (idempotencyKey) {
+                await this.idempotencyStore.delete(idempotencyKey);
+            }
+
+            serverResponse.operations[operation.id] = {
+                error: toErrorResponse(new PartialCommit(error)),
+            };
+        }
+    }
+
+    /**
+     * Returns the id and error of the first failed operation stored in the response
+     */
+    private findFailedOperation(
+        serverResponse: ServerResponse,
+    ): [OperationId, ErrorResponse] | undefined {
+        for (
+            const [operationId, results] of Object.entries(
+                serverResponse.operations,
+            )
+        ) {
+            if ('error' in results) {
+                return [operationId as OperationId, results.error];
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Returns the key the operation result is stored with, the operation key has priority over
+     * the request key, which is combined with the operation id. The keys of each principal are apart
+     */
+    private getIdempotencyKey(
+        api: Api,
+        operation: ProcedureOperation,
+        context: RequestContext,
+    ): string | undefined {
+        const subject = context.principal?.subject ?? '';
+
+        if (operation.idempotency_key) {
+            return `${api}:${subject}:${operation.idempotency_key}`;
+        }
+
+        if (context.idempotencyKey) {
+            return `${api}:${subject}:${context.idempotencyKey}:${operation.id}`;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Applies the server default and upper bound to the operation timeout requested by the client
+     */
+    private resolveOperationTimeout(requested?: number): number | undefined {
+        const { defaultOperationTimeout, maxOperationTimeout } =
+            this.configuration.execution ?? {};
+        const timeout = requested ?? defaultOperationTimeout;
+
+        if (maxOperationTimeout === undefined) {
+            return timeout;
+        }
+
+        return Math.min(timeout ?? maxOperationTimeout, maxOperationTimeout);
+    }
+
+    private async processOperation<R extends Resource>(
+        api: Api,
+        operation: Operation,
+        context: RequestContext,
+        operationContext: OperationContext,
+        socket?: ServerWebSocket,
+    ): Promise<OperationOutput> {
+        if (
+            ['execute', 'subscribe', 'unsubscribe', 'query']
+                .indexOf(operation.type) === -1
+        ) {
+            throw new OperationTypeNotSupported();
+        }
+
+        if (
+            (operation.type == 'subscribe' ||
+                operation.type == 'unsubscribe') &&
+            !socket
+        ) {
+            throw new OperationTypeNotSupported(
+                'Subscriptions are only available over a WebSocket connection.',
+            );
+        }
+
+        if (operation.type == 'execute') {
+            const apiProcedures = this.registeredProcedures.get(api);
+
+            if (!apiProcedures) {
+                throw new ProcedureNotFound();
+            }
+
+            const procedure = operation.procedure;
+            const procedureHandler = apiProcedures.get(procedure);
+
+            if (!procedureHandler) {
+                throw new ProcedureNotFound();
+            }
+
+            if (operation.return && procedureHandler.output) {
+                const undeclared = findUndeclaredSelections(
+                    operation.return,
+                    procedureHandler.output,
+                );
+
+                if (undeclared.length > 0) {
+                    throw new InvalidReturnSelection(undeclared);
+                }
+            }
+
+            if (procedureHandler.input) {
+                const violations = validateSchema(
+                    procedureHandler.input,
+                    operation.input,
+                );
+
+                if (violations.length > 0) {
+                    throw new InvalidInput(violations);
+                }
+            }
+
+            const idempotencyKey = this.getIdempotencyKey(
+                api,
+                operation,
+                context,
+            );
+            let fingerprint: string | undefined;
+
+            if (idempotencyKey) {
+                fingerprint = await hash(
+                    stableStringify([operation.procedure, operation.input]),
+                );
+
+                // the key is reserved first, so a concurrent duplicate does not run the procedure too
+                const record = await this.idempotencyStore.reserve(
+                    idempotencyKey,
+                    { fingerprint, pending: true, output: undefined },
+                    this.configuration.idempotency?.pendingTtl ?? 60 * 1000,
+                );
+
+                if (record) {
+                    const key = operation.idempotency_key ??
+                        context.idempotencyKey!;
+
+                    if (record.fingerprint !== fingerprint) {
+                        throw new IdempotencyConflict(key);
+                    }
+
+                    if (record.pending) {
+                        throw new IdempotencyKeyInUse(key);
+                    }
+
+                    return record.output;
+                }
+
+                (context.idempotencyKeys ??= new Map()).set(
+                    operation.id,
+                    idempotencyKey,
+                );
+            }
+
+            let r: OperationOutput;
+
+            try {
+                try {
+                    r = await procedureHandler.execute({
+                        operationContext,
+                        context,
+                        input: operation.input,
+                    });
+                } catch (e) {
+                    throw await this.handleOperationError(
+                        operationContext,
+                        operation,
+                        e as Error,
+                    );
+                }
+
+                this.checkOutputConformance(procedureHandler, r);
+            } catch (e) {
+                // a failed operation can be retried with the same key
+                if (idempotencyKey) {
+                    context.idempotencyKeys?.delete(operation.id);
+                    await this.idempotencyStore.delete(idempotencyKey);
+                }
+
+                throw e;
+            }
+
+            if (idempotencyKey) {
+                await this.idempotencyStore.set(
+                    idempotencyKey,
+                    { fingerprint: fingerprint!, output: r },
+                    this.configuration.idempotency?.ttl ?? 24 * 60 * 60 * 1000,
+                );
+            }
+
+            return r;
+        }
+
+        if (operation.type == 'query') {
+            const queryHandler = this.registeredQueries.get(api)?.get(
+                operation.resource,
+            );
+
+            if (!queryHandler) {
+                throw new QueryNotFound();
+            }
+
+            if (operation.return && queryHandler.schema) {
+                const undeclared = findUndeclaredSelections(
+                    operation.return,
+                    queryHandler.schema,
+                );
+
+                if (undeclared.length > 0) {
+                    throw new InvalidReturnSelection(undeclared);
+                }
+            }
+
+            const violations = validateQuery(operation, queryHandler);
+
+            if (violations.length > 0) {
+                throw new InvalidQuery(violations);
+            }
+
+            try {
+                const output = await queryHandler.execute({
+                    operationContext,
+                    context,
+                    query: toQuery(operation, queryHandler),
+                });
+
+                operationContext.nextCursor = output.nextCursor ?? null;
+
+                return output.resources;
+            } catch (e) {
+                throw await this.handleOperationError(
+                    operationContext,
+                    operation,
+                    e as Error,
+                );
+            }
+        }
+
+        if (operation.type == 'subscribe' && socket) {
+            const apiSubscriptions = this.registeredSubscriptions.get(api);
+
+            if (!apiSubscriptions) {
+                throw new SubscriptionNotFound();
+            }
+
+            const topic = operation.topic;
+            const subscriptionHandler = apiSubscriptions.get(topic);
+
+            if (!subscriptionHandler) {
+                throw new SubscriptionNotFound();
+            }
+
+            const params = operation.params ?? {};
+
+            if (subscriptionHandler.params) {
+                const violations = validateSchema(
+                    subscriptionHandler.params,
+                    params,
+                );
+
+                if (violations.length > 0) {
+                    throw new InvalidSubscriptionParams(violations);
+                }
+            }
+
+            const socketSubscriptions = this.getSocketSubscriptions(socket.id)
+                .filter((e) => e.api == api && e.topic == topic);
+
+            // subscribing twice with the same params keeps the first subscription
+            const existing = socketSubscriptions.find((e) =>
+                isDeepEqual(e.params, params)
+            );
+
+            if (existing) {
+                operationContext.subscriptionId = existing.subscriptionId;
+                return undefined;
+            }
+
+            const maxSubscriptions =
+                this.websocketLimits.maxSubscriptionsPerSocket;
+
+            if (
+                this.getSocketSubscriptions(socket.id).length >=
+                    maxSubscriptions
+            ) {
+                const error = new TooManySubscriptions(maxSubscriptions);
+
+                this.closeSocket(
+                    socket,
+                    WebSocketCloseCodes.TOO_MANY_SUBSCRIPTIONS,
+                    error,
+                );
+
+                throw error;
+            }
+
+            // the handler is told about the socket only once, whatever the number of its subscriptions
+            if (socketSubscriptions.length === 0) {
+                subscriptionHandler.registerSocketConnection(
+                    socket,
+                    context,
+                    operationContext,
+                );
+            }
+
+            const subscriber = this.addSubscription(
+                api,
+                topic,
+                params,
+                socket,
+                context,
+            );
+
+            operationContext.subscriptionId = subscriber.subscriptionId;
+
+            if (operation.last_event_id !== undefined) {
+                operationContext.resyncRequired = !(await this.replayEvents(
+                    api,
+                    topic,
+                    subscriber,
+                    operation.last_event_id,
+                ));
+            }
+
+            return undefined;
+        }
+
+        if (operation.type == 'unsubscribe' && socket) {
+            const topic = operation.topic;
+            const subscriptionHandler = this.registeredSubscriptions.get(api)
+                ?.get(topic);
+
+            if (!subscriptionHandler) {
+                throw new SubscriptionNotFound();
+            }
+
+            const subscriptions = this.getSocketSubscriptions(socket.id)
+                .filter((e) =>
+                    e.api == api && e.topic == topic &&
+                    (operation.subscription_id === undefined ||
+                        e.subscriptionId == operation.subscription_id)
+                );
+
+            if (subscriptions.length === 0) {
+                throw new NotSubscribed();
+            }
+
+            for (const subscription of subscriptions) {
+                this.removeSubscription(socket.id, subscription, true, context);
+            }
+
+            return undefined;
+        }
+    }
+
+    /**
+     * Validates each returned resource against the procedure output schema.
+     * Outside production a mismatch fails the operation, in production it is only logged and counted
+     */
+    private checkOutputConformance(
+        procedureHandler: ProcedureHandlerInterface,
+        output: OperationOutput,
+    ) {
+        if (!procedureHandler.output || output === undefined) {
+            return;
+        }
+
+        const violations: SchemaViolation[] = [];
+
+        for (const reference of Object.keys(output) as ResourceReference[]) {
+            const resource = output[reference];
+
+            if (resource == null) {
+                continue;
+            }
+
+            const resourceViolations = validateSchema(
+                procedureHandler.output,
+                selectProps(resource, {
+                    ignore: ['_resource_id', '_resource_name'],
+                }),
+            );
+
+            for (const violation of resourceViolations) {
+                violations.push({
+                    ...violation,
+                    path: `/${escapePointer(reference)}${violation.path}`,
+                });
+            }
+        }
+
+        if (violations.length === 0) {
+            return;
+        }
+
+        if (this.configuration.env !== Environment.PROD) {
+            throw new InvalidOutput(violations);
+        }
 
-            this.connectedSockets.delete(socket.id);
+        let apiMismatches = this.outputMismatches.get(procedureHandler.api);
 
-            // closing registered subscriptions
-            const socketInSubscription = this.socketsInSubscriptions.get(
-                socket.id,
+        if (!apiMismatches) {
+            apiMismatches = new Map<ProcedureName, number>();
+            this.outputMismatches.set(procedureHandler.api, apiMismatches);
+        }
+
+        apiMismatches.set(
+            procedureHandler.name,
+            (apiMismatches.get(procedureHandler.name) ?? 0) + 1,
+        );
+
+        if (this.logLevel <= LogLevel.WARNING) {
+            console.warn(
+                `[${procedureHandler.api}/${procedureHandler.name}] returned an output not matching its schema.`,
+                violations,
             );
+        }
+    }
 
-            if (socketInSubscription) {
-                for (const entry of socketInSubscription) {
-                    const subscriptionTopic = this.subscriptionsByTopics.get(
-                        entry.topic,
-                    );
-                    if (subscriptionTopic) {
-                        const position = subscriptionTopic.findIndex((e) =>
-                            e.socket.id == socket.id
-                        );
-                        subscriptionTopic.splice(position, 1);
-                    }
-                }
+    /**
+     * Sends the event to the local sockets subscribed to the topic.
+     * A failure while sending to one socket does not prevent the delivery to the others
+     */
+    private deliverEvent(
+        api: Api,
+        topic: SubscriptionTopic,
+        event: SubscriptionEvent,
+    ): PublishResult {
+        const result: PublishResult = { delivered: 0, dropped: 0, failed: 0 };
+        const subscriptionHandler = this.registeredSubscriptions.get(api)
+            ?.get(topic);
+
+        if (!subscriptionHandler) {
+            return result;
+        }
+
+        for (
+            const subscriber of this.subscriptionsByTopics.get(
+                `${api}/${topic}`,
+            ) ?? []
+        ) {
+            const matches = this.matchesSubscriber(
+                subscriptionHandler,
+                subscriber,
+                event,
+            );
 
-                this.socketsInSubscriptions.delete(socket.id);
+            if (matches === undefined) {
+                result.failed++;
+                continue;
             }
 
-            console.log(this.socketsInSubscriptions);
-            this.subscriptionsByTopics.keys().forEach((e) => {
-                console.log(this.subscriptionsByTopics.get(e)!.length);
-            });
-        });
+            if (!matches) {
+                continue;
+            }
 
-        return webSocketUpgrade.response;
-    }
+            const replayQueue = this.replayQueues.get(
+                subscriber.subscriptionId,
+            );
 
-    private async processRequest(
-        request: ServerRequest,
-        socket?: ServerWebSocket,
-    ): Promise<ServerResponse> {
-        const { jrpc, api: apiVersion, operations } = request;
+            // live events wait for the missed ones to be replayed first
+            if (replayQueue) {
+                replayQueue.push(event);
+                result.delivered++;
+                continue;
+            }
 
-        const serverResponse: ServerResponse = {
-            jrpc,
-            api: apiVersion,
-            operations: {},
-            resources: {},
-        };
+            result[this.sendEvent(api, topic, subscriber, event)]++;
+        }
 
-        const context: RequestContext = {
-            authentication: request.authentication,
-            executionStrategy: request.settings?.execution_strategy,
-            operationTimeout: request.settings?.operation_timeout,
-        };
+        return result;
+    }
 
-        if (this.beforeAllFunc) {
-            try {
-                await this.beforeAllFunc(context);
-            } catch (e) {
-                // todo: return a response when this hook fails
+    /**
+     * Returns true when the event must be sent to the subscriber, undefined when the filter
+     * of the handler throws, so the other subscribers still get the event
+     */
+    private matchesSubscriber(
+        subscriptionHandler: SubscriptionHandlerInterface,
+        subscriber: TopicSubscriber,
+        event: SubscriptionEvent,
+    ): boolean | undefined {
+        try {
+            return matchesSubscription(
+                subscriptionHandler,
+                event,
+                subscriber.params,
+                subscriber.context,
+            );
+        } catch (e) {
+            if (this.logLevel <= LogLevel.ERROR) {
+                console.error(
+                    `[${subscriptionHandler.api}/${subscriptionHandler.topic}] failed to filter an event for the socket [${subscriber.socket.id}].`,
+                    e,
+                );
             }
+
+            return undefined;
         }
+    }
 
-        // todo: execute the operations in parallel or sequence, depending on the execution type defined in the request
-        for (const operation of operations) {
-            const operationContext: OperationContext = {
-                api: apiVersion,
-                operation: operation,
-                result: undefined,
-            };
+    private sendEvent(
+        api: Api,
+        topic: SubscriptionTopic,
+        subscriber: TopicSubscriber,
+        event: SubscriptionEvent,
+    ): keyof PublishResult {
+        const maxBufferedAmount =
+            this.configuration.subscriptions?.maxBufferedAmount ?? 1024 * 1024;
+        const slowConsumerPolicy =
+            this.configuration.subscriptions?.slowConsumerPolicy ?? 'drop';
 
-            if (this.beforeEachFunc) {
-                try {
-                    await this.beforeEachFunc(operationContext, context);
-                } catch (e) {
-                    if (e instanceof JRPCError) {
-                        this.processOperationError(
-                            e as JRPCError,
-                            operation,
-                            serverResponse,
-                        );
-
-                        continue;
-                    }
+        const socket = subscriber.socket;
 
-                    this.processOperationError(
-                        new UnhandledError(e as Error),
-                        operation,
-                        serverResponse,
+        try {
+            if (socket.readyState !== WebSocket.OPEN) {
+                return 'dropped';
+            }
+
+            if (socket.bufferedAmount > maxBufferedAmount) {
+                if (slowConsumerPolicy == 'disconnect') {
+                    this.closeSocket(
+                        socket,
+                        WebSocketCloseCodes.SLOW_CONSUMER,
+                        new SlowConsumer(),
                     );
-                    continue;
                 }
+
+                return 'dropped';
             }
 
-            let result: OperationOutput;
+            const envelope: SubscriptionEventEnvelope = {
+                type: 'event',
+                api,
+                topic,
+                subscription_id: subscriber.subscriptionId,
+                event,
+            };
 
-            try {
-                result = await this.processOperation(
-                    apiVersion,
-                    operation,
-                    context,
-                    operationContext,
-                    socket,
+            socket.send(JSON.stringify(envelope));
+            return 'delivered';
+        } catch (e) {
+            if (this.logLevel <= LogLevel.ERROR) {
+                console.error(
+                    `[${api}/${topic}] failed to send an event to the socket [${socket.id}].`,
+                    e,
                 );
+            }
 
-                operationContext.result = result;
-
-                if (this.afterEachFunc) {
-                    try {
-                        await this.afterEachFunc(operationContext, context);
-                    } catch (e) {
-                        if (e instanceof JRPCError) {
-                            this.processOperationError(
-                                e as JRPCError,
-                                operation,
-                                serverResponse,
-                            );
-
-                            continue;
-                        }
-
-                        this.processOperationError(
-                            new UnhandledError(e as Error),
-                            operation,
-                            serverResponse,
-                        );
-                    }
-                }
+            return 'failed';
+        }
+    }
 
-                this.processOperationResult(
-                    operationContext.result,
-                    operation,
-                    serverResponse,
-                );
-            } catch (e) {
-                this.processOperationError(
-                    e as JRPCError,
-                    operation,
-                    serverResponse,
-                );
-            }
+    /**
+     * Sends the events published since [lastEventId] to the subscriber, then the live events
+     * received in the meantime. Returns false when the missed events are no longer available
+     */
+    private async replayEvents(
+        api: Api,
+        topic: SubscriptionTopic,
+        subscriber: TopicSubscriber,
+        lastEventId: number,
+    ): Promise<boolean> {
+        const subscriptionHandler = this.registeredSubscriptions.get(api)
+            ?.get(topic);
 
-            if (this.afterEachFunc) {
-                try {
-                    await this.afterEachFunc(operationContext, context);
-                } catch (e) {
-                    if (e instanceof JRPCError) {
-                        this.processOperationError(
-                            e as JRPCError,
-                            operation,
-                            serverResponse,
-                        );
-
-                        continue;
-                    }
+        let replayedId = lastEventId;
 
-                    this.processOperationError(
-                        new UnhandledError(e as Error),
-                        operation,
-                        serverResponse,
-                    );
+        this.replayQueues.set(subscriber.subscriptionId, []);
+
+        try {
+            const missed = await this.replayBuffer.since(
+                api,
+                topic,
+                lastEventId,
+            );
+
+            if (missed === undefined) {
+                return false;
+            }
+
+            for (const event of missed) {
+                replayedId = Math.max(replayedId, event.id ?? replayedId);
+
+                if (
+                    subscriptionHandler &&
+                    this.matchesSubscriber(
+                        subscriptionHandler,
+                        subscriber,
+                        event,
+                    )
+                ) {
+                    this.sendEvent(api, topic, subscriber, event);
                 }
             }
-        }
 
-        this.returnSelectedProps(serverResponse, request.return);
+            return true;
+        } finally {
+            const queued = this.replayQueues.get(subscriber.subscriptionId) ??
+                [];
 
-        if (this.afterAllFunc) {
-            await this.afterAllFunc(context);
-        }
+            this.replayQueues.delete(subscriber.subscriptionId);
 
-        return serverResponse;
+            for (const event of queued) {
+                if (event.id === undefined || event.id > replayedId) {
+                    this.sendEvent(api, topic, subscriber, event);
+                }
+            }
+        }
     }
 
-    private async processOperation<R extends Resource>(
+    private addSubscription(
         api: Api,
-        operation: Operation,
+        topic: SubscriptionTopic,
+        params: SubscriptionParams,
+        socket: ServerWebSocket,
         context: RequestContext,
-        operationContext: OperationContext,
-        socket?: ServerWebSocket,
-    ): Promise<OperationOutput> {
-        if (
-            ['execute', 'subscribe']
-                .indexOf(operation.type) === -1
-        ) {
-            throw new OperationTypeNotSupported();
-        }
+    ): TopicSubscriber {
+        const topicKey = `${api}/${topic}`;
+        const subscriptionId = crypto.randomUUID() as SubscriptionId;
+        const subscriber = { subscriptionId, params, context, socket };
 
-        if (operation.type == 'execute') {
-            const apiProcedures = this.registeredProcedures.get(api);
+        this.subscriptionsByTopics.set(topicKey, [
+            ...(this.subscriptionsByTopics.get(topicKey) ?? []),
+            subscriber,
+        ]);
 
-            if (!apiProcedures) {
-                throw new ProcedureNotFound();
-            }
+        this.socketsInSubscriptions.set(socket.id, [
+            ...(this.socketsInSubscriptions.get(socket.id) ?? []),
+            { subscriptionId, api, topic, params },
+        ]);
 
-            const procedure = operation.procedure;
-            const procedureHandler = apiProcedures.get(procedure);
+        this.updateBrokerSubscription(api, topic);
 
-            if (!procedureHandler) {
-                throw new ProcedureNotFound();
-            }
+        return subscriber;
+    }
 
-            try {
-                const r = await procedureHandler.execute({
-                    operationContext,
-                    context,
-                    input: operation.input,
-                });
+    /**
+     * Removes the subscription, the handler is notified once the socket has no subscription left on the topic
+     */
+    private removeSubscription(
+        socketId: ServerWebSocketId,
+        subscription: SocketSubscription,
+        notify = true,
+        context?: RequestContext,
+    ) {
+        const { api, topic, subscriptionId } = subscription;
+        const topicKey = `${api}/${topic}`;
+        const topicSubscriptions = (this.subscriptionsByTopics.get(topicKey) ??
+            []).filter((e) => e.subscriptionId != subscriptionId);
+
+        if (topicSubscriptions.length > 0) {
+            this.subscriptionsByTopics.set(topicKey, topicSubscriptions);
+        } else {
+            this.subscriptionsByTopics.delete(topicKey);
+        }
 
-                return r;
-            } catch (e) {
-                throw await this.handleOperationError(
-                    operationContext,
-                    operation,
-                    e as Error,
-                );
-            }
+        this.updateBrokerSubscription(api, topic);
+
+        const socketSubscriptions = (this.socketsInSubscriptions.get(
+            socketId,
+        ) ?? []).filter((e) => e.subscriptionId != subscriptionId);
+
+        if (socketSubscriptions.length > 0) {
+            this.socketsInSubscriptions.set(socketId, socketSubscriptions);
+        } else {
+            this.socketsInSubscriptions.delete(socketId);
         }
 
-        if (operation.type == 'subscribe' && socket) {
-            const apiSubscriptions = this.registeredSubscriptions.get(api);
+        const stillSubscribed = socketSubscriptions.some((e) =>
+            e.api == api && e.topic == topic
+        );
 
-            if (!apiSubscriptions) {
-                throw new SubscriptionNotFound();
-            }
+        if (notify && !stillSubscribed) {
+            this.registeredSubscriptions.get(api)
+                ?.get(topic)
+                ?.onSocketUnsubscribed?.(socketId, context);
+        }
+    }
 
-            const topic = operation.topic;
-            const subscriptionHandler = apiSubscriptions.get(topic);
+    /**
+     * Listens to the topic on the broker while the instance has subscribers and shares their number
+     */
+    private updateBrokerSubscription(api: Api, topic: SubscriptionTopic) {
+        const topicKey = `${api}/${topic}`;
+        const subscribers = (this.subscriptionsByTopics.get(topicKey) ?? [])
+            .length;
+        // the topic is only subscribed to by the first subscriber and left by the last one
+        const subscribe = subscribers > 0 && !this.brokerTopics.has(topicKey);
+        const unsubscribe = subscribers === 0 &&
+            this.brokerTopics.has(topicKey);
+
+        if (subscribe) {
+            this.brokerTopics.add(topicKey);
+        } else if (unsubscribe) {
+            this.brokerTopics.delete(topicKey);
+        }
 
-            if (!subscriptionHandler) {
-                throw new SubscriptionNotFound();
+        const update = async () => {
+            if (subscribe) {
+                try {
+                    await this.broker.subscribe(
+                        api,
+                        topic,
+                        this.brokerListener,
+                    );
+                } catch (e) {
+                    // the next subscriber tries again
+                    this.brokerTopics.delete(topicKey);
+                    throw e;
+                }
+            } else if (unsubscribe) {
+                await this.broker.unsubscribe(api, topic, this.brokerListener);
             }
 
-            subscriptionHandler.registerSocketConnection(
-                socket,
-                context,
-                operationContext,
+            await this.broker.setPresence(
+                this.instanceId,
+                api,
+                topic,
+                subscribers,
             );
+        };
 
-            // todo: remove the subscriptions if the socket disconnects
+        update().catch((e) => this.logBrokerError(api, topic, e));
+    }
 
-            return undefined;
+    private logBrokerError(api: Api, topic: SubscriptionTopic, e: unknown) {
+        if (this.logLevel <= LogLevel.ERROR) {
+            console.error(`[${api}/${topic}] broker operation failed.`, e);
         }
     }
 
@@ -743,17 +2848,12 @@ export class Server {
         operation: Operation,
         e: Error,
     ): Promise<Error> {
-        let customError: JRPCError | undefined;
-
-        if (this.onErrorFunc) {
-            customError = await this.onErrorFunc(
-                operationContext,
-                e,
-            );
-        }
+        for (const onErrorFunc of this.onErrorFuncs) {
+            const customError = await onErrorFunc(operationContext, e);
 
-        if (customError !== undefined) {
-            return customError;
+            if (customError !== undefined) {
+                return customError;
+            }
         }
 
         if (e instanceof JRPCError) {
@@ -767,21 +2867,23 @@ export class Server {
         operationResult: OperationOutput,
         operation: Operation,
         response: ServerResponse,
+        operationContext?: OperationContext,
     ) {
-        if (operationResult === undefined) {
-            response.operations[operation.id] = {
-                result: null,
-            };
+        const references = Object.keys(
+            operationResult ?? {},
+        ) as ResourceReference[];
+
+        response.operations[operation.id] = removeUndefined({
+            result: references.length > 0 ? references : null,
+            next_cursor: operationContext?.nextCursor,
+            subscription_id: operationContext?.subscriptionId,
+            resync_required: operationContext?.resyncRequired,
+        }) as OperationResults;
 
+        if (operationResult === undefined) {
             return;
         }
 
-        const references = Object.keys(operationResult) as ResourceReference[];
-
-        response.operations[operation.id] = {
-            result: references.length > 0 ? references : null,
-        };
-
         for (const reference of references) {
             const resource = operationResult[reference];
             response.resources[reference] = resource;
@@ -798,27 +2900,166 @@ export class Server {
         };
     }
 
+    /**
+     * Adds to the response the resources linked from the operation results,
+     * up to the depth asked in the [return] selections
+     */
+    private async expandLinkedResources(
+        request: ServerRequest,
+        context: RequestContext,
+        response: ServerResponse,
+    ) {
+        const roots: { reference: ResourceReference; depth: number }[] = [];
+
+        for (const operation of request.operations) {
+            const results = response.operations[operation.id];
+
+            if (!results || !('result' in results)) {
+                continue;
+            }
+
+            for (
+                const reference of ([] as ResourceReference[]).concat(
+                    results.result ?? [],
+                )
+            ) {
+                const resource = response.resources[reference];
+
+                if (resource == null) {
+                    continue;
+                }
+
+                const selection = operation.return ??
+                    request.return?.[resource._resource_name] ?? [];
+                roots.push({ reference, depth: getExpansionDepth(selection) });
+            }
+        }
+
+        try {
+            await expandResources(
+                response.resources,
+                roots,
+                this.registeredResourceResolvers.get(request.api),
+                context,
+            );
+        } catch (e) {
+            if (this.logLevel <= LogLevel.ERROR) {
+                console.error('Linked resources could not be expanded.', e);
+            }
+        }
+    }
+
+    /**
+     * Applies the [return] selections to the resources of the response. The selection of an operation
+     * overrides the request one for the resources it returned, the selections of several operations
+     * returning the same resource are merged
+     */
     private returnSelectedProps(
+        request: ServerRequest,
         response: ServerResponse,
-        returnProps?: { [key: string]: string[] },
     ) {
+        const selections = new Map<ResourceReference, string[][]>();
+
+        for (const operation of request.operations) {
+            const results = response.operations[operation.id];
+
+            if (!results || !('result' in results)) {
+                continue;
+            }
+
+            for (
+                const reference of ([] as ResourceReference[]).concat(
+                    results.result ?? [],
+                )
+            ) {
+                const resource = response.resources[reference];
+
+                if (resource == null) {
+                    continue;
+                }
+
+                const selection = operation.return ??
+                    request.return?.[resource._resource_name] ?? [];
+                selections.set(reference, [
+                    ...(selections.get(reference) ?? []),
+                    selection,
+                ]);
+            }
+        }
+
         const resourceReferences = Object.keys(
             response.resources,
         ) as ResourceReference[];
 
         for (const reference of resourceReferences) {
             const resource = response.resources[reference];
-            if (
-                returnProps && resource != null &&
-                returnProps[resource._resource_name]
-            ) {
-                response.resources[reference] = selectProps(resource, {
-                    select: returnProps[resource._resource_name],
-                }) as Resource;
-            } else if (resource != null) {
-                response.resources[reference] = selectProps(resource, {
-                    ignore: ['_resource_id', '_resource_name'],
-                }) as Resource;
+
+            if (resource == null) {
+                continue;
+            }
+
+            const resourceSelections = selections.get(reference) ??
+                [request.return?.[resource._resource_name] ?? []];
+
+            response.resources[reference] = resourceSelections
+                .map((selection): unknown =>
+                    applySelection(resource, selection)
+                )
+                .reduce(mergeSelections) as Resource;
+        }
+    }
+
+    /**
+     * Fails the operation when the request [return] selection of a resource name it returns
+     * names properties not declared in the procedure output or query resource schema.
+     * Called without [output] before the operation runs, to check the resource names known
+     * in advance, and with it afterwards for procedures not declaring their resource names
+     */
+    private checkRequestReturnSelection(
+        request: ServerRequest,
+        operation: Operation,
+        output?: OperationOutput,
+    ) {
+        if (
+            operation.type == 'subscribe' || operation.type == 'unsubscribe' ||
+            operation.return || !request.return
+        ) {
+            return;
+        }
+
+        const outputSchema = operation.type == 'execute'
+            ? this.registeredProcedures.get(request.api)
+                ?.get(operation.procedure)?.output
+            : this.registeredQueries.get(request.api)
+                ?.get(operation.resource)?.schema;
+
+        if (!outputSchema) {
+            return;
+        }
+
+        const declaredResourceNames = operation.type == 'query'
+            ? [operation.resource]
+            : getDeclaredResourceNames(outputSchema);
+        let resourceNames: Iterable<ResourceName> | undefined;
+
+        if (output === undefined) {
+            resourceNames = declaredResourceNames;
+        } else if (!declaredResourceNames && output) {
+            resourceNames = new Set(
+                Object.values(output).filter((e) => e != null).map((e) =>
+                    e!._resource_name
+                ),
+            );
+        }
+
+        for (const resourceName of resourceNames ?? []) {
+            const undeclared = findUndeclaredSelections(
+                request.return[resourceName] ?? [],
+                outputSchema,
+            );
+
+            if (undeclared.length > 0) {
+                throw new InvalidReturnSelection(undeclared);
             }
         }
     }
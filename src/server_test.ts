@@ -0,0 +1,322 @@
+import { assertEquals } from '@std/assert';
+import { Server } from './server.ts';
+import {
+    Api,
+    Environment,
+    ErrorCodes,
+    OperationOutput,
+    ProcedureHandlerInterface,
+    ProcedureName,
+    TransactionHandlerInterface,
+} from './types/index.ts';
+
+type ResponseBody = {
+    operations?: Record<string, { result?: unknown; error?: { code: string } }>;
+    resources?: Record<string, unknown>;
+    error?: { code: string };
+};
+
+function createServer(): Server {
+    return new Server({ host: 'localhost', port: 0, env: Environment.DEV });
+}
+
+/**
+ * Sends the payload to the server as an HTTP request and returns the decoded response
+ */
+async function send(
+    server: Server,
+    payload: Record<string, unknown>,
+): Promise<{ status: number; body: ResponseBody }> {
+    const response = await (server as unknown as {
+        handler(req: Request, clientAddress: string): Promise<Response>;
+    }).handler(
+        new Request('http://localhost/', {
+            method: 'POST',
+            body: JSON.stringify({ jrpc: 'v1', api: 'v1', ...payload }),
+        }),
+        '127.0.0.1',
+    );
+
+    return { status: response.status, body: await response.json() };
+}
+
+/**
+ * Lists the result or the error code of each operation to keep the assertions short
+ */
+function getOutcomes(body: ResponseBody): Record<string, unknown> {
+    return Object.fromEntries(
+        Object.entries(body.operations ?? {}).map(([id, e]) => [
+            id,
+            e.error?.code ?? e.result,
+        ]),
+    );
+}
+
+/**
+ * Procedure returning one [item] resource named after its input, or failing when the input asks to
+ * or for its first [failures] calls. [until] delays the result until it resolves
+ */
+function createProcedure(
+    name: string,
+    options: {
+        calls?: string[];
+        transaction?: TransactionHandlerInterface;
+        failures?: number;
+        until?: Promise<void>;
+    } = {},
+): ProcedureHandlerInterface {
+    let count = 0;
+
+    return {
+        name: name as ProcedureName,
+        api: 'v1' as Api,
+        input: undefined,
+        output: undefined,
+        transaction: options.transaction,
+        async execute({ input }) {
+            const id = String(input?.id ?? name);
+
+            options.calls?.push(id);
+            await options.until;
+
+            if (input?.fail || count++ < (options.failures ?? 0)) {
+                throw new Error(`The procedure [${name}] failed.`);
+            }
+
+            return {
+                [`item/${id}`]: { _resource_id: id, _resource_name: 'item' },
+            } as unknown as OperationOutput;
+        },
+    };
+}
+
+/**
+ * Transaction recording its calls in [events], its commit fails when [failCommit] is set
+ */
+function createTransaction(
+    events: string[],
+    name: string,
+    failCommit = false,
+): TransactionHandlerInterface {
+    return {
+        begin() {
+            events.push(`begin ${name}`);
+            return Promise.resolve(name);
+        },
+        commit() {
+            events.push(`commit ${name}`);
+            return failCommit
+                ? Promise.reject(new Error('The commit failed.'))
+                : Promise.resolve();
+        },
+        rollback() {
+            events.push(`rollback ${name}`);
+            return Promise.resolve();
+        },
+    };
+}
+
+Deno.test('commits the transaction of an atomic request', async () => {
+    const events: string[] = [];
+    const server = createServer()
+        .registerProcedureHandlers([createProcedure('create')])
+        .registerTransactionHandler(createTransaction(events, 'server'));
+
+    const { body } = await send(server, {
+        settings: { atomic: true },
+        operations: [
+            { id: 'a', type: 'execute', procedure: 'create', input: { id: 1 } },
+            { id: 'b', type: 'execute', procedure: 'create', input: { id: 2 } },
+        ],
+    });
+
+    assertEquals(getOutcomes(body), { a: ['item/1'], b: ['item/2'] });
+    assertEquals(events, ['begin server', 'commit server']);
+});
+
+Deno.test('aborts every operation of an atomic request when one fails', async () => {
+    const events: string[] = [];
+    const server = createServer()
+        .registerProcedureHandlers([createProcedure('create')])
+        .registerTransactionHandler(createTransaction(events, 'server'));
+
+    const { body } = await send(server, {
+        settings: { atomic: true },
+        operations: [
+            { id: 'a', type: 'execute', procedure: 'create', input: { id: 1 } },
+            {
+                id: 'b',
+                type: 'execute',
+                procedure: 'create',
+                input: { id: 2, fail: true },
+            },
+            { id: 'c', type: 'execute', procedure: 'create', input: { id: 3 } },
+        ],
+    });
+
+    assertEquals(getOutcomes(body), {
+        a: ErrorCodes.BATCH_ABORTED,
+        b: ErrorCodes.BATCH_ABORTED,
+        c: ErrorCodes.BATCH_ABORTED,
+    });
+    assertEquals(body.resources, {});
+    assertEquals(events, ['begin server', 'rollback server']);
+});
+
+Deno.test('rejects atomic requests running procedures without a transaction', async () => {
+    const calls: string[] = [];
+    const server = createServer().registerProcedureHandlers([
+        createProcedure('create', { calls }),
+    ]);
+
+    const { status, body } = await send(server, {
+        settings: { atomic: true },
+        operations: [{ id: 'a', type: 'execute', procedure: 'create' }],
+    });
+
+    assertEquals(status, 400);
+    assertEquals(body.error?.code, ErrorCodes.ATOMIC_NOT_SUPPORTED);
+    assertEquals(calls, []);
+});
+
+Deno.test('reports the operations rolled back after another transaction committed', async () => {
+    const events: string[] = [];
+    const server = createServer().registerProcedureHandlers([
+        createProcedure('first', {
+            transaction: createTransaction(events, 'first'),
+        }),
+        createProcedure('second', {
+            transaction: createTransaction(events, 'second', true),
+        }),
+    ]);
+
+    const { body } = await send(server, {
+        settings: { atomic: true },
+        operations: [
+            { id: 'a', type: 'execute', procedure: 'first' },
+            { id: 'b', type: 'execute', procedure: 'second' },
+        ],
+    });
+
+    assertEquals(getOutcomes(body), {
+        a: ['item/first'],
+        b: ErrorCodes.PARTIAL_COMMIT,
+    });
+    assertEquals(Object.keys(body.resources ?? {}), ['item/first']);
+    assertEquals(events, [
+        'begin first',
+        'begin second',
+        'commit first',
+        'commit second',
+        'rollback second',
+    ]);
+});
+
+Deno.test('replays the result of an operation sent again with its idempotency key', async () => {
+    const calls: string[] = [];
+    const server = createServer().registerProcedureHandlers([
+        createProcedure('create', { calls }),
+    ]);
+    const operation = {
+        id: 'a',
+        type: 'execute',
+        procedure: 'create',
+        input: { id: 1 },
+        idempotency_key: 'key',
+    };
+
+    const first = await send(server, { operations: [operation] });
+    const second = await send(server, { operations: [operation] });
+    const conflict = await send(server, {
+        operations: [{ ...operation, input: { id: 2 } }],
+    });
+
+    assertEquals(getOutcomes(first.body), { a: ['item/1'] });
+    assertEquals(getOutcomes(second.body), { a: ['item/1'] });
+    assertEquals(getOutcomes(conflict.body), {
+        a: ErrorCodes.IDEMPOTENCY_CONFLICT,
+    });
+    assertEquals(calls, ['1']);
+});
+
+Deno.test('runs again the failed operations sent with an idempotency key', async () => {
+    const calls: string[] = [];
+    const server = createServer().registerProcedureHandlers([
+        createProcedure('create', { calls, failures: 1 }),
+    ]);
+    const operations = [{
+        id: 'a',
+        type: 'execute',
+        procedure: 'create',
+        idempotency_key: 'key',
+    }];
+
+    const first = await send(server, { operations });
+    const second = await send(server, { operations });
+
+    assertEquals(getOutcomes(first.body), { a: ErrorCodes.UNHANDLED_ERROR });
+    assertEquals(getOutcomes(second.body), { a: ['item/create'] });
+    assertEquals(calls, ['create', 'create']);
+});
+
+Deno.test('rejects an idempotency key used by a running operation', async () => {
+    let release!: () => void;
+    const server = createServer().registerProcedureHandlers([
+        createProcedure('create', {
+            until: new Promise((resolve) => release = resolve),
+        }),
+    ]);
+    const operations = [{
+        id: 'a',
+        type: 'execute',
+        procedure: 'create',
+        idempotency_key: 'key',
+    }];
+
+    const running = send(server, { operations });
+    const duplicate = await send(server, { operations });
+
+    release();
+
+    assertEquals(getOutcomes(duplicate.body), {
+        a: ErrorCodes.IDEMPOTENCY_KEY_IN_USE,
+    });
+    assertEquals(getOutcomes((await running).body), { a: ['item/create'] });
+});
+
+Deno.test('keeps the replayed idempotency records when an atomic request is rolled back', async () => {
+    const calls: string[] = [];
+    const server = createServer()
+        .registerProcedureHandlers([createProcedure('create', { calls })])
+        .registerTransactionHandler(createTransaction([], 'server'));
+    const committed = {
+        id: 'a',
+        type: 'execute',
+        procedure: 'create',
+        input: { id: 1 },
+        idempotency_key: 'committed',
+    };
+    const rolledBack = {
+        id: 'b',
+        type: 'execute',
+        procedure: 'create',
+        input: { id: 2 },
+        idempotency_key: 'rolled-back',
+    };
+
+    await send(server, { operations: [committed] });
+    await send(server, {
+        settings: { atomic: true },
+        operations: [committed, rolledBack, {
+            id: 'c',
+            type: 'execute',
+            procedure: 'create',
+            input: { id: 3, fail: true },
+        }],
+    });
+    const retry = await send(server, { operations: [committed, rolledBack] });
+
+    assertEquals(getOutcomes(retry.body), { a: ['item/1'], b: ['item/2'] });
+    // [a] is replayed from the first request, [b] runs again once rolled back
+    assertEquals(calls, ['1', '2', '3', '2']);
+});
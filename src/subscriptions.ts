@@ -0,0 +1,46 @@
+import {
+    RequestContext,
+    SubscriptionEvent,
+    SubscriptionHandlerInterface,
+    SubscriptionParams,
+} from './types/index.ts';
+import { isDeepEqual } from './utils.ts';
+
+/**
+ * Returns true when the event must be sent to a subscription with the given params,
+ * using the filter of the handler when it declares one
+ */
+export function matchesSubscription(
+    subscriptionHandler: SubscriptionHandlerInterface,
+    event: SubscriptionEvent,
+    params: SubscriptionParams,
+    context: RequestContext,
+): boolean {
+    if (subscriptionHandler.filter) {
+        return subscriptionHandler.filter(event, params, context);
+    }
+
+    return matchesSubscriptionParams(event, params);
+}
+
+/**
+ * Returns true when every param equals the property of the same name in the event content
+ */
+export function matchesSubscriptionParams(
+    event: SubscriptionEvent,
+    params: SubscriptionParams,
+): boolean {
+    const entries = Object.entries(params);
+
+    if (entries.length === 0) {
+        return true;
+    }
+
+    if (typeof event.content != 'object' || event.content === null) {
+        return false;
+    }
+
+    const content = event.content as Record<string, unknown>;
+
+    return entries.every(([key, value]) => isDeepEqual(content[key], value));
+}
@@ -0,0 +1,83 @@
+import { TransactionHandlerInterface } from '../types/index.ts';
+
+/**
+ * Writes staged by one transaction, a deleted key is staged as undefined
+ */
+export type InMemoryTransaction<T> = Map<string, T | undefined>;
+
+/**
+ * Key value store keeping the writes of a transaction apart until it is committed.
+ * Reference implementation of a transaction handler, meant for tests and prototypes
+ */
+export class InMemoryTransactionStore<T>
+    implements TransactionHandlerInterface<InMemoryTransaction<T>> {
+    private data = new Map<string, T>();
+
+    public begin(): Promise<InMemoryTransaction<T>> {
+        return Promise.resolve(new Map());
+    }
+
+    public commit(transaction: InMemoryTransaction<T>): Promise<void> {
+        for (const [key, value] of transaction) {
+            if (value === undefined) {
+                this.data.delete(key);
+            } else {
+                this.data.set(key, value);
+            }
+        }
+
+        transaction.clear();
+
+        return Promise.resolve();
+    }
+
+    public rollback(transaction: InMemoryTransaction<T>): Promise<void> {
+        transaction.clear();
+
+        return Promise.resolve();
+    }
+
+    /**
+     * Reads a value, seeing the writes staged by the transaction when one is given
+     */
+    public get(
+        key: string,
+        transaction?: InMemoryTransaction<T>,
+    ): T | undefined {
+        if (transaction?.has(key)) {
+            return transaction.get(key);
+        }
+
+        return this.data.get(key);
+    }
+
+    public set(key: string, value: T, transaction?: InMemoryTransaction<T>) {
+        if (transaction) {
+            transaction.set(key, value);
+        } else {
+            this.data.set(key, value);
+        }
+    }
+
+    public delete(key: string, transaction?: InMemoryTransaction<T>) {
+        if (transaction) {
+            transaction.set(key, undefined);
+        } else {
+            this.data.delete(key);
+        }
+    }
+
+    public keys(transaction?: InMemoryTransaction<T>): string[] {
+        const keys = new Set(this.data.keys());
+
+        for (const [key, value] of transaction ?? []) {
+            if (value === undefined) {
+                keys.delete(key);
+            } else {
+                keys.add(key);
+            }
+        }
+
+        return [...keys];
+    }
+}
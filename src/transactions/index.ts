@@ -0,0 +1 @@
+export * from './in_memory_transaction_store.ts';
@@ -1,4 +1,4 @@
-import { JSONSchema } from './json_schema.ts';
+import { JsonPrimitive, JSONSchema } from './json_schema.ts';
 
 declare const __brand: unique symbol;
 type Brand<B> = { [__brand]: B };
@@ -35,6 +35,7 @@ export type ResourceReference = Branded<
     'ResourceReference'
 >;
 export type ServerWebSocketId = Branded<string, 'WebSocketId'>;
+export type SubscriptionId = Branded<string, 'SubscriptionId'>;
 
 export const ProtocolVersions = {
     v1: 'v1' as ProtocolVersion,
@@ -42,8 +43,27 @@ export const ProtocolVersions = {
 
 export type RequestContext = {
     authentication?: ServerRequestAuthentication;
+    /**
+     * Address of the client the request comes from
+     */
+    clientAddress?: string;
+    /**
+     * Client identified by the registered authenticator of the request scheme
+     */
+    principal?: Principal;
     executionStrategy?: 'sequential' | 'parallel';
     operationTimeout?: number;
+    atomic?: boolean;
+    idempotencyKey?: string;
+    /**
+     * State returned by [begin] for each transaction opened by an atomic request
+     */
+    transactions?: Map<TransactionHandlerInterface, unknown>;
+    /**
+     * Idempotency keys reserved by the operations of the request, records replayed from
+     * an earlier request are not listed
+     */
+    idempotencyKeys?: Map<OperationId, string>;
 };
 
 export type ProcedureInput = {
@@ -56,51 +76,145 @@ export type Resource = {
     [key: string]: unknown;
 };
 
+/**
+ * Value of a resource property pointing to another resource
+ */
+export type ResourceLink = {
+    $resource: ResourceReference;
+};
+
 export type OperationBase = {
     id: OperationId;
     return?: string[];
+    depends_on?: OperationId[];
+};
+
+/**
+ * Marker used inside an operation input to point to the result of a previous operation,
+ * like { $result: 'createOrganization.result[0]._resource_id' }
+ */
+export type OperationResultReference = {
+    $result: string;
 };
 
 export type ProcedureOperation = OperationBase & {
     type: 'execute';
     procedure: ProcedureName;
     input: Resource;
+    idempotency_key?: string;
 };
 
 export type SubscriptionOperation = OperationBase & {
     type: 'subscribe';
     topic: SubscriptionTopic;
+    /**
+     * Only the events matching the params are sent to the subscription
+     */
+    params?: SubscriptionParams;
+    /**
+     * Id of the last event received before reconnecting, the events published since then are sent first
+     */
+    last_event_id?: number;
 };
 
 export type OperationOutput =
     | Record<ResourceReference, Resource | null>
     | undefined;
 
-export type Operation = ProcedureOperation | SubscriptionOperation;
+export type UnsubscriptionOperation = OperationBase & {
+    type: 'unsubscribe';
+    topic: SubscriptionTopic;
+    /**
+     * Ends only this subscription of the topic, every subscription of the topic otherwise
+     */
+    subscription_id?: SubscriptionId;
+};
+
+export type QueryOperation = OperationBase & {
+    type: 'query';
+    resource: ResourceName;
+    where?: OperationWhere;
+    order_by?: QueryOrderBy[];
+    limit?: number;
+    cursor?: string;
+};
+
+export type Operation =
+    | ProcedureOperation
+    | SubscriptionOperation
+    | UnsubscriptionOperation
+    | QueryOperation;
 
 export type OperationContext = {
     api: Api;
     operation: Operation;
     result: OperationOutput;
+    signal?: AbortSignal;
+    /**
+     * Cursor of the next page returned by a query operation
+     */
+    nextCursor?: string | null;
+    /**
+     * Id of the subscription created by a subscribe operation
+     */
+    subscriptionId?: SubscriptionId;
+    /**
+     * Set when the events missed by a resumed subscription are no longer available
+     */
+    resyncRequired?: boolean;
 };
 
 export type OperationResults = {
     result: ResourceReference | ResourceReference[] | null;
+    next_cursor?: string | null;
+    subscription_id?: SubscriptionId;
+    resync_required?: boolean;
 } | {
     error: ErrorResponse;
 };
 
-//
-// export type OperationWhere = {
-//     id: string;
-//     [key: string]: number | number[] | string | string[] | { equal: string } | {
-//         match: string;
-//     } | {
-//         gt: number | string;
-//         inclusive: boolean;
-//     } | { lt: number | string; inclusive: boolean };
-// };
-//
+export type WhereCondition =
+    | JsonPrimitive
+    | (string | number)[]
+    | { equal: JsonPrimitive }
+    | { match: string }
+    | { in: (string | number)[] }
+    | {
+        gt?: number | string;
+        lt?: number | string;
+        inclusive?: boolean;
+    };
+
+/**
+ * Conditions on the resource properties, a plain value is an [equal] condition
+ * and a plain list an [in] condition
+ */
+export type OperationWhere = {
+    [property: string]: WhereCondition;
+};
+
+export type QueryOrderBy = {
+    property: string;
+    direction?: 'asc' | 'desc';
+};
+
+/**
+ * Query passed to the handler, once validated and with the server defaults applied
+ */
+export type Query = {
+    where: OperationWhere;
+    orderBy: QueryOrderBy[];
+    limit: number;
+    cursor?: string;
+};
+
+export type QueryOutput = {
+    resources: OperationOutput;
+    /**
+     * Cursor to send in the next query to get the next page, null on the last page
+     */
+    nextCursor?: string | null;
+};
 
 // todo: redefine the input and output types
 export interface ProcedureHandlerInterface {
@@ -108,6 +222,11 @@ export interface ProcedureHandlerInterface {
     api: Api;
     input: JSONSchema | undefined;
     output: JSONSchema | undefined;
+    /**
+     * Transaction opened around atomic requests containing operations of this procedure
+     */
+    transaction?: TransactionHandlerInterface;
+    authorization?: AuthorizationRequirements;
 
     execute(
         args: {
@@ -118,9 +237,226 @@ export interface ProcedureHandlerInterface {
     ): Promise<OperationOutput>;
 }
 
+/**
+ * Requirements the principal must meet for an operation to run, checked before the hooks
+ */
+export type AuthorizationRequirements = {
+    /**
+     * The principal must have one of the roles
+     */
+    roles?: string[];
+    /**
+     * The principal must have every scope
+     */
+    scopes?: string[];
+    /**
+     * Custom check run once the roles and scopes are met
+     */
+    policy?: (
+        principal: Principal,
+        context: RequestContext,
+        operationContext: OperationContext,
+    ) => boolean | Promise<boolean>;
+};
+
+export interface QueryHandlerInterface {
+    resourceName: ResourceName;
+    api: Api;
+    /**
+     * Schema of the resource, properties not declared here can not be filtered or sorted
+     */
+    schema: JSONSchema | undefined;
+    /**
+     * Maximum number of resources returned in one page, defaults to 100
+     */
+    maxLimit?: number;
+
+    execute(
+        args: {
+            operationContext: OperationContext;
+            context: RequestContext;
+            query: Query;
+        },
+    ): Promise<QueryOutput>;
+}
+
+export interface TransactionHandlerInterface<T = unknown> {
+    begin(context: RequestContext): Promise<T>;
+
+    commit(transaction: T, context: RequestContext): Promise<void>;
+
+    rollback(transaction: T, context: RequestContext): Promise<void>;
+}
+
+export interface ResourceResolverInterface {
+    resourceName: ResourceName;
+    api: Api;
+
+    /**
+     * Loads the resources with the given ids, missing resources can be left out or set to null
+     */
+    resolve(
+        ids: ResourceId[],
+        context: RequestContext,
+    ): Promise<Record<ResourceReference, Resource | null>>;
+}
+
+export type IdempotencyRecord = {
+    /**
+     * Hash of the procedure and input the key was first used with
+     */
+    fingerprint: string;
+    /**
+     * Set while the first operation sent with the key is running
+     */
+    pending?: boolean;
+    output: OperationOutput;
+};
+
+export interface IdempotencyStoreInterface {
+    get(key: string): Promise<IdempotencyRecord | undefined>;
+
+    /**
+     * Stores the record for [ttl] milliseconds
+     */
+    set(key: string, record: IdempotencyRecord, ttl: number): Promise<void>;
+
+    /**
+     * Stores the record for [ttl] milliseconds only when the key is free, in one atomic step.
+     * Returns the record already stored with the key otherwise
+     */
+    reserve(
+        key: string,
+        record: IdempotencyRecord,
+        ttl: number,
+    ): Promise<IdempotencyRecord | undefined>;
+
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Event published on a topic, shared between the server instances through the broker
+ */
+export type BrokerMessage = {
+    /**
+     * Id of the server instance that published the event
+     */
+    origin: string;
+    api: Api;
+    topic: SubscriptionTopic;
+    event: SubscriptionEvent;
+};
+
+export type BrokerListener = (message: BrokerMessage) => void;
+
+export interface BrokerAdapterInterface {
+    /**
+     * Sends the message to the listeners of its topic on every instance, including the publishing one
+     */
+    publish(message: BrokerMessage): Promise<void>;
+
+    subscribe(
+        api: Api,
+        topic: SubscriptionTopic,
+        listener: BrokerListener,
+    ): Promise<void>;
+
+    unsubscribe(
+        api: Api,
+        topic: SubscriptionTopic,
+        listener: BrokerListener,
+    ): Promise<void>;
+
+    /**
+     * Records the number of sockets subscribed to the topic on the instance
+     */
+    setPresence(
+        instanceId: string,
+        api: Api,
+        topic: SubscriptionTopic,
+        subscribers: number,
+    ): Promise<void>;
+
+    /**
+     * Returns the number of sockets subscribed to the topic across the instances
+     */
+    getPresence(api: Api, topic: SubscriptionTopic): Promise<number>;
+
+    close(): Promise<void>;
+}
+
+export interface ReplayBufferInterface {
+    /**
+     * True when every instance appends to and reads from this same buffer, the ids are then assigned
+     * by the publishing instance. Otherwise each instance numbers the events it delivers, its own and
+     * the ones received from the broker
+     */
+    shared?: boolean;
+
+    /**
+     * Assigns the next id of the topic to the event and keeps it for replay
+     */
+    append(
+        api: Api,
+        topic: SubscriptionTopic,
+        event: SubscriptionEvent,
+    ): Promise<SubscriptionEvent>;
+
+    /**
+     * Returns the events published after the given id,
+     * undefined when some of them are no longer kept
+     */
+    since(
+        api: Api,
+        topic: SubscriptionTopic,
+        lastEventId: number,
+    ): Promise<SubscriptionEvent[] | undefined>;
+}
+
+/**
+ * Token bucket holding up to [capacity] tokens and refilled with [refillRate] tokens per second.
+ * A rule without procedure limits the requests of its Api, one with a procedure the operations
+ * of that procedure
+ */
+export type RateLimitRule = {
+    api?: Api;
+    procedure?: ProcedureName;
+    /**
+     * Keeps one bucket per principal or per client address, a single shared bucket otherwise.
+     * Requests without principal are counted per client address
+     */
+    per?: 'principal' | 'ip';
+    capacity: number;
+    refillRate: number;
+};
+
+export type RateLimitResult = {
+    allowed: boolean;
+    /**
+     * Milliseconds until a token is available, zero when allowed
+     */
+    retryAfter: number;
+};
+
+export interface RateLimitStoreInterface {
+    /**
+     * Takes one token from the bucket of the key, creating it full when missing
+     */
+    consume(
+        key: string,
+        capacity: number,
+        refillRate: number,
+    ): Promise<RateLimitResult>;
+}
+
 export interface SubscriptionHandlerInterface {
     topic: SubscriptionTopic;
     api: Api;
+    /**
+     * Schema of the params a subscribe operation can filter the events with
+     */
+    params?: JSONSchema;
+    authorization?: AuthorizationRequirements;
 
     registerSocketConnection(
         socket: ServerWebSocket,
@@ -128,24 +464,151 @@ export interface SubscriptionHandlerInterface {
         operationContext: OperationContext,
     ): void;
 
-    publishMessage(
+    /**
+     * Deprecated, events are sent to the subscribed sockets with [Server.publish]
+     */
+    publishMessage?(
         event: SubscriptionEvent,
     ): void;
 
     onSocketDisconnected(id: ServerWebSocketId): void;
+
+    /**
+     * Called when the websocket unsubscribes from the topic or its subscription is ended by the server
+     */
+    onSocketUnsubscribed?(
+        id: ServerWebSocketId,
+        context?: RequestContext,
+    ): void;
+
+    /**
+     * Returns true when the event must be sent to a subscription with the given params.
+     * Without it, every param must equal the property of the same name in the event content
+     */
+    filter?(
+        event: SubscriptionEvent,
+        params: SubscriptionParams,
+        context: RequestContext,
+    ): boolean;
 }
 
+export type SocketSubscription = {
+    subscriptionId: SubscriptionId;
+    api: Api;
+    topic: SubscriptionTopic;
+    params: SubscriptionParams;
+};
+
+/**
+ * Message sent to a subscribed websocket for each published event
+ */
+export type SubscriptionEventEnvelope = {
+    type: 'event';
+    api: Api;
+    topic: SubscriptionTopic;
+    subscription_id: SubscriptionId;
+    event: SubscriptionEvent;
+};
+
+export type PublishResult = {
+    delivered: number;
+    /**
+     * Events not sent because the socket was closing or consuming too slowly
+     */
+    dropped: number;
+    failed: number;
+};
+
+/**
+ * What to do with a subscriber whose socket buffer exceeds the limit, dropping the event
+ * or disconnecting the socket
+ */
+export type SlowConsumerPolicy = 'drop' | 'disconnect';
+
+export enum WebSocketCloseCodes {
+    HEARTBEAT_TIMEOUT = 4001,
+    IDLE_TIMEOUT = 4002,
+    CONNECTION_LIFETIME_EXCEEDED = 4003,
+    TOO_MANY_CONNECTIONS = 4004,
+    TOO_MANY_CLIENT_CONNECTIONS = 4005,
+    TOO_MANY_SUBSCRIPTIONS = 4006,
+    SLOW_CONSUMER = 4008,
+}
+
+/**
+ * Message sent by the server at each heartbeat, the client answers with a [pong] message
+ */
+export type HeartbeatMessage = { type: 'ping' | 'pong'; timestamp: number };
+
+/**
+ * Message authenticating the websocket, the credentials are used by its following requests
+ */
+export type AuthMessage = {
+    type: 'auth';
+    authentication: ServerRequestAuthentication;
+};
+
+/**
+ * Answer of the server to a successful auth message
+ */
+export type AuthResultMessage = {
+    type: 'auth';
+    subject?: string;
+    expires_at?: number;
+};
+
+export type TopicSubscriber = {
+    subscriptionId: SubscriptionId;
+    params: SubscriptionParams;
+    context: RequestContext;
+    socket: ServerWebSocket;
+};
+
 export type ServerRequestSettings = {
     execution_strategy?: 'sequential' | 'parallel';
     operation_timeout?: number;
+    atomic?: boolean;
+    idempotency_key?: string;
 };
 
 export type ServerRequestAuthentication = {
-    scheme: 'bearer';
+    /**
+     * Selects the registered authenticator verifying the token, like [bearer]
+     */
+    scheme: string;
     token: string;
-    token_format: 'JWT';
+    token_format?: string;
+};
+
+/**
+ * Verified identity of the client sending the request
+ */
+export type Principal = {
+    scheme: string;
+    subject?: string;
+    roles?: string[];
+    scopes?: string[];
+    claims: Record<string, unknown>;
+    /**
+     * Time in milliseconds when the credentials expire
+     */
+    expiresAt?: number;
 };
 
+export interface AuthenticatorInterface {
+    /**
+     * Authentication scheme the authenticator verifies, compared without case
+     */
+    scheme: string;
+
+    /**
+     * Returns the principal of valid credentials, throws [NotAuthenticatedError] otherwise
+     */
+    authenticate(
+        authentication: ServerRequestAuthentication,
+    ): Promise<Principal>;
+}
+
 export type ServerRequest = {
     jrpc: ProtocolVersion;
     api: Api;
@@ -162,6 +625,49 @@ export type ServerResponse = {
     resources: Record<ResourceReference, Resource | null>;
 };
 
+/**
+ * Layer wrapping the processing of a request or of its operations. The layers run in the
+ * order they were registered, each one calling [next] to run the rest of the chain. Not
+ * calling [next] short-circuits the chain with the returned value
+ */
+export interface MiddlewareInterface {
+    /**
+     * Api the middleware is limited to, every Api when missing
+     */
+    api?: Api;
+
+    /**
+     * Procedure the middleware is limited to. Operations of other types are skipped and the
+     * request layer only runs for requests executing the procedure
+     */
+    procedure?: ProcedureName;
+
+    /**
+     * Wraps the processing of the operations of the request, after its authentication
+     */
+    handleRequest?(
+        request: ServerRequest,
+        context: RequestContext,
+        next: () => Promise<ServerResponse>,
+    ): Promise<ServerResponse>;
+
+    /**
+     * Wraps the processing of each operation, after its authorization
+     */
+    handleOperation?(
+        operationContext: OperationContext,
+        context: RequestContext,
+        next: () => Promise<OperationOutput>,
+    ): Promise<OperationOutput>;
+}
+
+export type SchemaViolation = {
+    path: string;
+    keyword: string;
+    expected?: unknown;
+    message: string;
+};
+
 export type ErrorResponse = {
     code: string;
     message: string;
@@ -170,13 +676,56 @@ export type ErrorResponse = {
         error_name: string;
         error_message: string;
     };
+    violations?: SchemaViolation[];
+    /**
+     * Seconds to wait before retrying
+     */
+    retry_after?: number;
+};
+
+/**
+ * Version and Api read from a payload not fully parsed yet
+ */
+export type RequestEnvelope = {
+    jrpc?: ProtocolVersion;
+    api?: Api;
 };
 
 export type ServerResponseError = {
     jrpc: ProtocolVersion;
-    api: 'unknown';
+    /**
+     * Api of the request, unknown when the request could not be read
+     */
+    api: Api | 'unknown';
     error: ErrorResponse;
 };
 
+export interface ProtocolProcessorInterface {
+    version: ProtocolVersion;
+
+    /**
+     * Validates the decoded payload and translates it into the request processed by the server
+     */
+    parseRequest(payload: unknown): ServerRequest;
+
+    /**
+     * Translates the response built by the server into the envelope of this protocol version
+     */
+    formatResponse(response: ServerResponse): unknown;
+
+    /**
+     * Translates a request failing as a whole into the envelope of this protocol version
+     */
+    formatError(response: ServerResponseError): unknown;
+}
+
 export type ServerWebSocket = WebSocket & { id: ServerWebSocketId };
-export type SubscriptionEvent = { timestamp: number; content: unknown };
+export type SubscriptionEvent = {
+    /**
+     * Assigned when the event is published, increasing for each topic
+     */
+    id?: number;
+    timestamp: number;
+    content: unknown;
+};
+export type SubscriptionParams = Record<string, unknown>;
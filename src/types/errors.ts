@@ -1,22 +1,105 @@
-import { ErrorResponse } from './common.ts';
+import { ErrorResponse, SchemaViolation } from './common.ts';
 
 export enum ErrorCodes {
     UPGRADE_REQUEST_NOT_SUPPORTED = 'JRPC_UPGRADE_REQUEST_NOT_SUPPORTED',
     REQUEST_METHOD_NOT_SUPPORTED = 'JRPC_REQUEST_METHOD_NOT_SUPPORTED',
     EXPECTED_REQUEST_BODY_CONTENT = 'JRPC_EXPECTED_REQUEST_BODY_CONTENT',
     INVALID_JSON_CONTENT = 'JRPC_INVALID_JSON_CONTENT',
+    PAYLOAD_TOO_LARGE = 'JRPC_PAYLOAD_TOO_LARGE',
+    TOO_MANY_OPERATIONS = 'JRPC_TOO_MANY_OPERATIONS',
+    INVALID_REQUEST = 'JRPC_INVALID_REQUEST',
+    PROTOCOL_VERSION_NOT_SUPPORTED = 'JRPC_PROTOCOL_VERSION_NOT_SUPPORTED',
+    INVALID_OPERATION_DEPENDENCIES = 'JRPC_INVALID_OPERATION_DEPENDENCIES',
 
     PROCEDURE_NOT_FOUND = 'JRPC_PROCEDURE_NOT_FOUND',
     OPERATION_NOT_SUPPORTED = 'JRPC_OPERATION_NOT_SUPPORTED',
+    INVALID_INPUT = 'JRPC_INVALID_INPUT',
+    INVALID_OUTPUT = 'JRPC_INVALID_OUTPUT',
+    INVALID_RETURN_SELECTION = 'JRPC_INVALID_RETURN_SELECTION',
+    OPERATION_TIMEOUT = 'JRPC_OPERATION_TIMEOUT',
+    INVALID_OPERATION_REFERENCE = 'JRPC_INVALID_OPERATION_REFERENCE',
+    OPERATION_SKIPPED = 'JRPC_OPERATION_SKIPPED',
+    BATCH_ABORTED = 'JRPC_BATCH_ABORTED',
+    ATOMIC_NOT_SUPPORTED = 'JRPC_ATOMIC_NOT_SUPPORTED',
+    PARTIAL_COMMIT = 'JRPC_PARTIAL_COMMIT',
+    IDEMPOTENCY_CONFLICT = 'JRPC_IDEMPOTENCY_CONFLICT',
+    IDEMPOTENCY_KEY_IN_USE = 'JRPC_IDEMPOTENCY_KEY_IN_USE',
 
     SUBSCRIPTION_NOT_FOUND = 'JRPC_SUBSCRIPTION_NOT_FOUND',
+    NOT_SUBSCRIBED = 'JRPC_NOT_SUBSCRIBED',
+    INVALID_SUBSCRIPTION_PARAMS = 'JRPC_INVALID_SUBSCRIPTION_PARAMS',
+    TOO_MANY_SUBSCRIPTIONS = 'JRPC_TOO_MANY_SUBSCRIPTIONS',
+
+    SLOW_CONSUMER = 'JRPC_SLOW_CONSUMER',
+    HEARTBEAT_TIMEOUT = 'JRPC_HEARTBEAT_TIMEOUT',
+    IDLE_TIMEOUT = 'JRPC_IDLE_TIMEOUT',
+    CONNECTION_LIFETIME_EXCEEDED = 'JRPC_CONNECTION_LIFETIME_EXCEEDED',
+    TOO_MANY_CONNECTIONS = 'JRPC_TOO_MANY_CONNECTIONS',
+    TOO_MANY_CLIENT_CONNECTIONS = 'JRPC_TOO_MANY_CLIENT_CONNECTIONS',
+
+    QUERY_NOT_FOUND = 'JRPC_QUERY_NOT_FOUND',
+    INVALID_QUERY = 'JRPC_INVALID_QUERY',
 
     NOT_AUTHENTICATED = 'JRPC_NOT_AUTHENTICATED',
     NOT_AUTHORIZED = 'JRPC_NOT_AUTHORIZED',
 
+    RATE_LIMITED = 'JRPC_RATE_LIMITED',
+
     UNHANDLED_ERROR = 'JRPC_UNHANDLED_ERROR',
 }
 
+/**
+ * HTTP status of a request failing as a whole with the error code,
+ * the server configuration can override them
+ */
+export const defaultHttpStatuses: Record<ErrorCodes, number> = {
+    [ErrorCodes.UPGRADE_REQUEST_NOT_SUPPORTED]: 501,
+    [ErrorCodes.REQUEST_METHOD_NOT_SUPPORTED]: 405,
+    [ErrorCodes.EXPECTED_REQUEST_BODY_CONTENT]: 400,
+    [ErrorCodes.INVALID_JSON_CONTENT]: 400,
+    [ErrorCodes.PAYLOAD_TOO_LARGE]: 413,
+    [ErrorCodes.TOO_MANY_OPERATIONS]: 400,
+    [ErrorCodes.INVALID_REQUEST]: 400,
+    [ErrorCodes.PROTOCOL_VERSION_NOT_SUPPORTED]: 400,
+    [ErrorCodes.INVALID_OPERATION_DEPENDENCIES]: 400,
+
+    [ErrorCodes.PROCEDURE_NOT_FOUND]: 404,
+    [ErrorCodes.OPERATION_NOT_SUPPORTED]: 400,
+    [ErrorCodes.INVALID_INPUT]: 400,
+    [ErrorCodes.INVALID_OUTPUT]: 500,
+    [ErrorCodes.INVALID_RETURN_SELECTION]: 400,
+    [ErrorCodes.OPERATION_TIMEOUT]: 504,
+    [ErrorCodes.INVALID_OPERATION_REFERENCE]: 400,
+    [ErrorCodes.OPERATION_SKIPPED]: 424,
+    [ErrorCodes.BATCH_ABORTED]: 409,
+    [ErrorCodes.ATOMIC_NOT_SUPPORTED]: 400,
+    [ErrorCodes.PARTIAL_COMMIT]: 500,
+    [ErrorCodes.IDEMPOTENCY_CONFLICT]: 409,
+    [ErrorCodes.IDEMPOTENCY_KEY_IN_USE]: 409,
+
+    [ErrorCodes.SUBSCRIPTION_NOT_FOUND]: 404,
+    [ErrorCodes.NOT_SUBSCRIBED]: 404,
+    [ErrorCodes.INVALID_SUBSCRIPTION_PARAMS]: 400,
+    [ErrorCodes.TOO_MANY_SUBSCRIPTIONS]: 429,
+
+    [ErrorCodes.SLOW_CONSUMER]: 503,
+    [ErrorCodes.HEARTBEAT_TIMEOUT]: 408,
+    [ErrorCodes.IDLE_TIMEOUT]: 408,
+    [ErrorCodes.CONNECTION_LIFETIME_EXCEEDED]: 408,
+    [ErrorCodes.TOO_MANY_CONNECTIONS]: 503,
+    [ErrorCodes.TOO_MANY_CLIENT_CONNECTIONS]: 429,
+
+    [ErrorCodes.QUERY_NOT_FOUND]: 404,
+    [ErrorCodes.INVALID_QUERY]: 400,
+
+    [ErrorCodes.NOT_AUTHENTICATED]: 401,
+    [ErrorCodes.NOT_AUTHORIZED]: 403,
+
+    [ErrorCodes.RATE_LIMITED]: 429,
+
+    [ErrorCodes.UNHANDLED_ERROR]: 500,
+};
+
 export class JRPCError extends Error {
     constructor(
         public code: string,
@@ -27,6 +110,11 @@ export class JRPCError extends Error {
                 error_message: string;
             };
             suggestions?: string | string[];
+            violations?: SchemaViolation[];
+            /**
+             * Milliseconds to wait before retrying
+             */
+            retryAfter?: number;
         },
     ) {
         super(message);
@@ -77,6 +165,71 @@ export class InvalidJsonContent extends JRPCError {
     }
 }
 
+export class PayloadTooLarge extends JRPCError {
+    constructor(maxInputPayload: number) {
+        super(
+            ErrorCodes.PAYLOAD_TOO_LARGE,
+            `The request content must not be larger than [${maxInputPayload}] KB.`,
+            {
+                suggestions: ['Split the operations in several requests.'],
+            },
+        );
+    }
+}
+
+export class TooManyOperations extends JRPCError {
+    constructor(maxOperations: number) {
+        super(
+            ErrorCodes.TOO_MANY_OPERATIONS,
+            `The request must not have more than [${maxOperations}] operations.`,
+            {
+                suggestions: ['Split the operations in several requests.'],
+            },
+        );
+    }
+}
+
+export class InvalidRequest extends JRPCError {
+    constructor(violations: SchemaViolation[]) {
+        super(
+            ErrorCodes.INVALID_REQUEST,
+            'The request does not match the expected schema.',
+            {
+                suggestions: violations.map((violation) =>
+                    `${violation.path || '/'}: ${violation.message}`
+                ),
+                violations,
+            },
+        );
+    }
+}
+
+export class ProtocolVersionNotSupported extends JRPCError {
+    constructor(version: string, supportedVersions: string[]) {
+        super(
+            ErrorCodes.PROTOCOL_VERSION_NOT_SUPPORTED,
+            `The protocol version [${version}] is not supported.`,
+            {
+                suggestions: supportedVersions.map((e) =>
+                    `Use the protocol version [${e}].`
+                ),
+            },
+        );
+    }
+}
+
+export class InvalidOperationDependencies extends JRPCError {
+    constructor(reason: string) {
+        super(
+            ErrorCodes.INVALID_OPERATION_DEPENDENCIES,
+            'The operation dependencies can not be resolved.',
+            {
+                suggestions: [reason],
+            },
+        );
+    }
+}
+
 export class ProcedureNotFound extends JRPCError {
     constructor() {
         super(ErrorCodes.PROCEDURE_NOT_FOUND, 'Procedure not found.', {
@@ -85,6 +238,153 @@ export class ProcedureNotFound extends JRPCError {
     }
 }
 
+export class InvalidInput extends JRPCError {
+    constructor(violations: SchemaViolation[]) {
+        super(
+            ErrorCodes.INVALID_INPUT,
+            'The operation input does not match the procedure input schema.',
+            {
+                suggestions: violations.map((violation) =>
+                    `${violation.path || '/'}: ${violation.message}`
+                ),
+                violations,
+            },
+        );
+    }
+}
+
+export class InvalidOutput extends JRPCError {
+    constructor(violations: SchemaViolation[]) {
+        super(
+            ErrorCodes.INVALID_OUTPUT,
+            'The operation output does not match the procedure output schema.',
+            {
+                suggestions: violations.map((violation) =>
+                    `${violation.path}: ${violation.message}`
+                ),
+                violations,
+            },
+        );
+    }
+}
+
+export class InvalidReturnSelection extends JRPCError {
+    constructor(paths: string[]) {
+        super(
+            ErrorCodes.INVALID_RETURN_SELECTION,
+            'The return selection names properties not declared in the procedure output schema.',
+            {
+                suggestions: paths.map((path) =>
+                    `The property [${path}] is not declared.`
+                ),
+            },
+        );
+    }
+}
+
+export class OperationTimeout extends JRPCError {
+    constructor(timeout: number) {
+        super(
+            ErrorCodes.OPERATION_TIMEOUT,
+            `The operation did not complete within [${timeout}] ms.`,
+            {
+                suggestions: [
+                    'Increase the operation_timeout setting of the request.',
+                ],
+            },
+        );
+    }
+}
+
+export class InvalidOperationReference extends JRPCError {
+    constructor(reference: string, reason: string) {
+        super(
+            ErrorCodes.INVALID_OPERATION_REFERENCE,
+            `The operation reference [${reference}] can not be resolved.`,
+            {
+                suggestions: [reason],
+            },
+        );
+    }
+}
+
+export class OperationSkipped extends JRPCError {
+    constructor(dependency: string) {
+        super(
+            ErrorCodes.OPERATION_SKIPPED,
+            `The operation was skipped because [${dependency}] did not succeed.`,
+        );
+    }
+}
+
+export class BatchAborted extends JRPCError {
+    constructor(reason: string, cause?: ErrorResponse) {
+        super(
+            ErrorCodes.BATCH_ABORTED,
+            'The atomic request was aborted, none of its operations were applied.',
+            {
+                suggestions: [reason],
+                details: cause
+                    ? { error_name: cause.code, error_message: cause.message }
+                    : undefined,
+            },
+        );
+    }
+}
+
+export class AtomicNotSupported extends JRPCError {
+    constructor(procedures: string[]) {
+        super(
+            ErrorCodes.ATOMIC_NOT_SUPPORTED,
+            `The request can not be atomic, the procedures [${procedures.join(', ')}] do not have a transaction.`,
+            {
+                suggestions: [
+                    'Send the request without the [atomic] setting, or register a transaction handler.',
+                ],
+            },
+        );
+    }
+}
+
+export class PartialCommit extends JRPCError {
+    constructor(cause: ErrorResponse) {
+        super(
+            ErrorCodes.PARTIAL_COMMIT,
+            'The atomic request was partially applied, the transaction of this operation was rolled back after other transactions were committed.',
+            {
+                suggestions: [
+                    'Check which operations succeeded before retrying the failed ones.',
+                ],
+                details: { error_name: cause.code, error_message: cause.message },
+            },
+        );
+    }
+}
+
+export class IdempotencyConflict extends JRPCError {
+    constructor(idempotencyKey: string) {
+        super(
+            ErrorCodes.IDEMPOTENCY_CONFLICT,
+            `The idempotency key [${idempotencyKey}] was already used with a different procedure or input.`,
+            {
+                suggestions: ['Use a new idempotency key for a new operation.'],
+            },
+        );
+    }
+}
+
+export class IdempotencyKeyInUse extends JRPCError {
+    constructor(idempotencyKey: string) {
+        super(
+            ErrorCodes.IDEMPOTENCY_KEY_IN_USE,
+            `The operation sent with the idempotency key [${idempotencyKey}] is still running.`,
+            {
+                suggestions: ['Retry once the first operation has completed.'],
+            },
+        );
+    }
+}
+
 export class SubscriptionNotFound extends JRPCError {
     constructor() {
         super(ErrorCodes.SUBSCRIPTION_NOT_FOUND, 'Subscription not found.', {
@@ -93,28 +393,177 @@ export class SubscriptionNotFound extends JRPCError {
     }
 }
 
-export class OperationTypeNotSupported extends JRPCError {
+export class NotSubscribed extends JRPCError {
     constructor() {
-        super(ErrorCodes.OPERATION_NOT_SUPPORTED, 'Operation type not supported.', {
+        super(
+            ErrorCodes.NOT_SUBSCRIBED,
+            'The connection is not subscribed to the topic.',
+            {
+                suggestions: [],
+            },
+        );
+    }
+}
+
+export class InvalidSubscriptionParams extends JRPCError {
+    constructor(violations: SchemaViolation[]) {
+        super(
+            ErrorCodes.INVALID_SUBSCRIPTION_PARAMS,
+            'The subscription params do not match the params schema of the topic.',
+            {
+                suggestions: violations.map((violation) =>
+                    `${violation.path || '/'}: ${violation.message}`
+                ),
+                violations,
+            },
+        );
+    }
+}
+
+export class TooManySubscriptions extends JRPCError {
+    constructor(maxSubscriptions: number) {
+        super(
+            ErrorCodes.TOO_MANY_SUBSCRIPTIONS,
+            `The connection must not have more than [${maxSubscriptions}] subscriptions.`,
+            {
+                suggestions: ['Unsubscribe from the topics no longer needed.'],
+            },
+        );
+    }
+}
+
+export class SlowConsumer extends JRPCError {
+    constructor() {
+        super(
+            ErrorCodes.SLOW_CONSUMER,
+            'The connection is not consuming the events fast enough.',
+            {
+                suggestions: ['Reconnect and resume the subscriptions.'],
+            },
+        );
+    }
+}
+
+export class HeartbeatTimeout extends JRPCError {
+    constructor() {
+        super(
+            ErrorCodes.HEARTBEAT_TIMEOUT,
+            'The connection did not answer the ping in time.',
+            {
+                suggestions: ['Answer every ping message with a pong message.'],
+            },
+        );
+    }
+}
+
+export class IdleTimeout extends JRPCError {
+    constructor(idleTimeout: number) {
+        super(
+            ErrorCodes.IDLE_TIMEOUT,
+            `The connection did not send any request for [${idleTimeout}] ms.`,
+            {
+                suggestions: [],
+            },
+        );
+    }
+}
+
+export class ConnectionLifetimeExceeded extends JRPCError {
+    constructor(maxLifetime: number) {
+        super(
+            ErrorCodes.CONNECTION_LIFETIME_EXCEEDED,
+            `The connection reached its maximum lifetime of [${maxLifetime}] ms.`,
+            {
+                suggestions: ['Reconnect and resume the subscriptions.'],
+            },
+        );
+    }
+}
+
+export class TooManyConnections extends JRPCError {
+    constructor(maxConnections: number) {
+        super(
+            ErrorCodes.TOO_MANY_CONNECTIONS,
+            `The server does not accept more than [${maxConnections}] connections.`,
+            {
+                suggestions: ['Retry the connection later.'],
+            },
+        );
+    }
+}
+
+export class TooManyClientConnections extends JRPCError {
+    constructor(maxConnectionsPerClient: number) {
+        super(
+            ErrorCodes.TOO_MANY_CLIENT_CONNECTIONS,
+            `A client must not open more than [${maxConnectionsPerClient}] connections.`,
+            {
+                suggestions: ['Close the connections no longer needed.'],
+            },
+        );
+    }
+}
+
+export class QueryNotFound extends JRPCError {
+    constructor() {
+        super(ErrorCodes.QUERY_NOT_FOUND, 'Query not found.', {
             suggestions: [],
         });
     }
 }
 
+export class InvalidQuery extends JRPCError {
+    constructor(violations: SchemaViolation[]) {
+        super(
+            ErrorCodes.INVALID_QUERY,
+            'The query filters are not valid for the resource.',
+            {
+                suggestions: violations.map((violation) =>
+                    `${violation.path}: ${violation.message}`
+                ),
+                violations,
+            },
+        );
+    }
+}
+
+export class OperationTypeNotSupported extends JRPCError {
+    constructor(reason?: string) {
+        super(ErrorCodes.OPERATION_NOT_SUPPORTED, 'Operation type not supported.', {
+            suggestions: reason ? [reason] : [],
+        });
+    }
+}
+
 export class NotAuthenticatedError extends JRPCError {
-    constructor() {
+    constructor(reason = 'Not authenticated.') {
         super(
             ErrorCodes.NOT_AUTHENTICATED,
-            'Not authenticated.',
+            reason,
         );
     }
 }
 
 export class NotAuthorizedError extends JRPCError {
-    constructor() {
+    constructor(reason = 'Not authorized.') {
         super(
             ErrorCodes.NOT_AUTHORIZED,
-            'Not authorized.',
+            reason,
+        );
+    }
+}
+
+export class RateLimited extends JRPCError {
+    constructor(retryAfter: number) {
+        super(
+            ErrorCodes.RATE_LIMITED,
+            'Too many requests, the rate limit has been reached.',
+            {
+                suggestions: [
+                    `Retry in [${Math.ceil(retryAfter / 1000)}] seconds.`,
+                ],
+                retryAfter,
+            },
         );
     }
 }
@@ -125,6 +574,10 @@ export function toErrorResponse(error: JRPCError): ErrorResponse {
         message: error.message,
         suggestion: error.options?.suggestions,
         details: error.options?.details,
+        violations: error.options?.violations,
+        retry_after: error.options?.retryAfter !== undefined
+            ? Math.ceil(error.options.retryAfter / 1000)
+            : undefined,
     };
 }
 
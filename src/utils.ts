@@ -39,3 +39,67 @@ export function removeUndefined(
     );
     return objCopy;
 }
+
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+    if (a === b) {
+        return true;
+    }
+
+    if (
+        typeof a != 'object' || typeof b != 'object' || a === null ||
+        b === null || Array.isArray(a) !== Array.isArray(b)
+    ) {
+        return false;
+    }
+
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+
+    if (aKeys.length !== bKeys.length) {
+        return false;
+    }
+
+    return aKeys.every((key) =>
+        isDeepEqual(
+            (a as Record<string, unknown>)[key],
+            (b as Record<string, unknown>)[key],
+        )
+    );
+}
+
+/**
+ * Serializes the value to JSON with the object keys sorted, so equal values produce the same string
+ */
+export function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map((e) => stableStringify(e ?? null)).join(',')}]`;
+    }
+
+    if (typeof value == 'object' && value !== null) {
+        const record = value as Record<string, unknown>;
+        const entries = Object.keys(record)
+            .filter((key) => record[key] !== undefined)
+            .sort()
+            .map((key) =>
+                `${JSON.stringify(key)}:${stableStringify(record[key])}`
+            );
+
+        return `{${entries.join(',')}}`;
+    }
+
+    return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Returns the SHA-256 hash of the content as an hexadecimal string
+ */
+export async function hash(content: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(content),
+    );
+
+    return Array.from(new Uint8Array(digest))
+        .map((e) => e.toString(16).padStart(2, '0'))
+        .join('');
+}
@@ -0,0 +1 @@
+export * from './json_schema_validator.ts';
@@ -0,0 +1,662 @@
+import { _JSONSchema, JSONSchema, SchemaViolation } from '../types/index.ts';
+import { isDeepEqual } from '../utils.ts';
+
+/**
+ * Checks for the string formats supported by the validator, unknown formats are ignored
+ */
+const formats: Record<string, (value: string) => boolean> = {
+    'date-time': (value) =>
+        /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/
+            .test(value) &&
+        isCalendarDate(value) &&
+        !Number.isNaN(Date.parse(value)),
+    'date': (value) =>
+        /^\d{4}-\d{2}-\d{2}$/.test(value) && isCalendarDate(value),
+    'time': (value) =>
+        /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/.test(value),
+    'email': (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+    'hostname': (value) =>
+        value.length <= 253 &&
+        /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/
+            .test(value),
+    'ipv4': (value) =>
+        /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/
+            .test(value),
+    'ipv6': (value) => {
+        try {
+            return new URL(`http://[${value}]`).hostname.length > 0;
+        } catch (_e) {
+            return false;
+        }
+    },
+    'uri': (value) => {
+        try {
+            new URL(value);
+            return true;
+        } catch (_e) {
+            return false;
+        }
+    },
+    'uuid': (value) =>
+        /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/
+            .test(value),
+};
+
+/**
+ * Number of days of each month, February of the leap years included
+ */
+const monthDays = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Returns true when the day of the [YYYY-MM-DD] prefix exists in its month
+ */
+function isCalendarDate(value: string): boolean {
+    const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+
+    if (month === 2 && day === 29) {
+        return year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+    }
+
+    return month >= 1 && month <= 12 && day >= 1 && day <= monthDays[month - 1];
+}
+
+/**
+ * Validates a value against a JSON schema and returns the list of violations found,
+ * an empty list means the value is valid
+ */
+export function validateSchema(
+    schema: _JSONSchema,
+    value: unknown,
+): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const root = typeof schema == 'object' ? schema : {};
+
+    validateNode(schema, value, '', root, violations);
+
+    return violations;
+}
+
+/**
+ * Returns true when the value does not have any violation against the schema
+ */
+export function isValid(schema: _JSONSchema, value: unknown): boolean {
+    return validateSchema(schema, value).length === 0;
+}
+
+function validateNode(
+    schema: _JSONSchema,
+    value: unknown,
+    path: string,
+    root: JSONSchema,
+    violations: SchemaViolation[],
+): void {
+    if (schema === true) {
+        return;
+    }
+
+    if (schema === false) {
+        violations.push({
+            path,
+            keyword: 'false',
+            message: 'No value is allowed at this location.',
+        });
+        return;
+    }
+
+    if (schema.$ref !== undefined) {
+        validateNode(
+            resolveReference(schema.$ref, root),
+            value,
+            path,
+            root,
+            violations,
+        );
+    }
+
+    if (schema.type !== undefined) {
+        const types = ([] as string[]).concat(schema.type);
+
+        if (!types.some((type) => matchesType(type, value))) {
+            violations.push({
+                path,
+                keyword: 'type',
+                expected: schema.type,
+                message: `Expected a value of type [${types.join(', ')}].`,
+            });
+
+            return;
+        }
+    }
+
+    if (
+        schema.enum !== undefined &&
+        !schema.enum.some((e) => isDeepEqual(e, value))
+    ) {
+        violations.push({
+            path,
+            keyword: 'enum',
+            expected: schema.enum,
+            message: `Expected one of [${schema.enum.join(', ')}].`,
+        });
+    }
+
+    if (schema.const !== undefined && !isDeepEqual(schema.const, value)) {
+        violations.push({
+            path,
+            keyword: 'const',
+            expected: schema.const,
+            message: `Expected the value [${schema.const}].`,
+        });
+    }
+
+    validateCombinators(schema, value, path, root, violations);
+
+    if (typeof value == 'number') {
+        validateNumber(schema, value, path, violations);
+    }
+
+    if (typeof value == 'string') {
+        validateString(schema, value, path, violations);
+    }
+
+    if (Array.isArray(value)) {
+        validateArray(schema, value, path, root, violations);
+    }
+
+    if (isObject(value)) {
+        validateObject(schema, value, path, root, violations);
+    }
+}
+
+function validateCombinators(
+    schema: JSONSchema,
+    value: unknown,
+    path: string,
+    root: JSONSchema,
+    violations: SchemaViolation[],
+): void {
+    for (const subSchema of schema.allOf ?? []) {
+        validateNode(subSchema, value, path, root, violations);
+    }
+
+    if (
+        schema.anyOf !== undefined &&
+        !schema.anyOf.some((subSchema) => matchesSchema(subSchema, value, root))
+    ) {
+        violations.push({
+            path,
+            keyword: 'anyOf',
+            message: 'The value does not match any of the allowed schemas.',
+        });
+    }
+
+    if (schema.oneOf !== undefined) {
+        const matches = schema.oneOf.filter((subSchema) =>
+            matchesSchema(subSchema, value, root)
+        ).length;
+
+        if (matches !== 1) {
+            violations.push({
+                path,
+                keyword: 'oneOf',
+                message:
+                    `The value must match exactly one schema, it matches [${matches}].`,
+            });
+        }
+    }
+
+    if (schema.not !== undefined && matchesSchema(schema.not, value, root)) {
+        violations.push({
+            path,
+            keyword: 'not',
+            message: 'The value must not match the schema.',
+        });
+    }
+
+    if (schema.if !== undefined) {
+        const branch = matchesSchema(schema.if, value, root)
+            ? schema.then
+            : schema.else;
+
+        if (branch !== undefined) {
+            validateNode(branch, value, path, root, violations);
+        }
+    }
+}
+
+function validateString(
+    schema: JSONSchema,
+    value: string,
+    path: string,
+    violations: SchemaViolation[],
+): void {
+    const length = [...value].length;
+
+    if (schema.minLength !== undefined && length < schema.minLength) {
+        violations.push({
+            path,
+            keyword: 'minLength',
+            expected: schema.minLength,
+            message:
+                `Expected at least [${schema.minLength}] characters, got [${length}].`,
+        });
+    }
+
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+        violations.push({
+            path,
+            keyword: 'maxLength',
+            expected: schema.maxLength,
+            message:
+                `Expected at most [${schema.maxLength}] characters, got [${length}].`,
+        });
+    }
+
+    if (
+        schema.pattern !== undefined &&
+        !new RegExp(schema.pattern, 'u').test(value)
+    ) {
+        violations.push({
+            path,
+            keyword: 'pattern',
+            expected: schema.pattern,
+            message:
+                `Expected the value to match the pattern [${schema.pattern}].`,
+        });
+    }
+
+    if (
+        schema.format !== undefined && formats[schema.format] &&
+        !formats[schema.format](value)
+    ) {
+        violations.push({
+            path,
+            keyword: 'format',
+            expected: schema.format,
+            message: `Expected a value with the format [${schema.format}].`,
+        });
+    }
+}
+
+function validateNumber(
+    schema: JSONSchema,
+    value: number,
+    path: string,
+    violations: SchemaViolation[],
+): void {
+    // draft-04 defines exclusiveMinimum and exclusiveMaximum as booleans modifying minimum and maximum
+    const minimumIsExclusive = schema.exclusiveMinimum === true;
+    const maximumIsExclusive = schema.exclusiveMaximum === true;
+
+    if (
+        schema.minimum !== undefined &&
+        (minimumIsExclusive ? value <= schema.minimum : value < schema.minimum)
+    ) {
+        violations.push({
+            path,
+            keyword: minimumIsExclusive ? 'exclusiveMinimum' : 'minimum',
+            expected: schema.minimum,
+            message: `Expected a value ${
+                minimumIsExclusive ? 'greater than' : 'greater or equal than'
+            } [${schema.minimum}].`,
+        });
+    }
+
+    if (
+        schema.maximum !== undefined &&
+        (maximumIsExclusive ? value >= schema.maximum : value > schema.maximum)
+    ) {
+        violations.push({
+            path,
+            keyword: maximumIsExclusive ? 'exclusiveMaximum' : 'maximum',
+            expected: schema.maximum,
+            message: `Expected a value ${
+                maximumIsExclusive ? 'lower than' : 'lower or equal than'
+            } [${schema.maximum}].`,
+        });
+    }
+
+    if (
+        typeof schema.exclusiveMinimum == 'number' &&
+        value <= schema.exclusiveMinimum
+    ) {
+        violations.push({
+            path,
+            keyword: 'exclusiveMinimum',
+            expected: schema.exclusiveMinimum,
+            message:
+                `Expected a value greater than [${schema.exclusiveMinimum}].`,
+        });
+    }
+
+    if (
+        typeof schema.exclusiveMaximum == 'number' &&
+        value >= schema.exclusiveMaximum
+    ) {
+        violations.push({
+            path,
+            keyword: 'exclusiveMaximum',
+            expected: schema.exclusiveMaximum,
+            message:
+                `Expected a value lower than [${schema.exclusiveMaximum}].`,
+        });
+    }
+
+    if (
+        schema.multipleOf !== undefined &&
+        !Number.isInteger(Number((value / schema.multipleOf).toPrecision(15)))
+    ) {
+        violations.push({
+            path,
+            keyword: 'multipleOf',
+            expected: schema.multipleOf,
+            message: `Expected a multiple of [${schema.multipleOf}].`,
+        });
+    }
+}
+
+function validateArray(
+    schema: JSONSchema,
+    value: unknown[],
+    path: string,
+    root: JSONSchema,
+    violations: SchemaViolation[],
+): void {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+        violations.push({
+            path,
+            keyword: 'minItems',
+            expected: schema.minItems,
+            message:
+                `Expected at least [${schema.minItems}] items, got [${value.length}].`,
+        });
+    }
+
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        violations.push({
+            path,
+            keyword: 'maxItems',
+            expected: schema.maxItems,
+            message:
+                `Expected at most [${schema.maxItems}] items, got [${value.length}].`,
+        });
+    }
+
+    if (schema.uniqueItems) {
+        for (let i = 1; i < value.length; i++) {
+            if (value.slice(0, i).some((e) => isDeepEqual(e, value[i]))) {
+                violations.push({
+                    path: `${path}/${i}`,
+                    keyword: 'uniqueItems',
+                    expected: true,
+                    message: 'The item is a duplicate of a previous item.',
+                });
+            }
+        }
+    }
+
+    if (schema.contains !== undefined) {
+        const minContains = schema.minContains ?? 1;
+        const matches = value.filter((e) =>
+            matchesSchema(schema.contains!, e, root)
+        ).length;
+
+        if (matches < minContains) {
+            violations.push({
+                path,
+                keyword: 'contains',
+                expected: minContains,
+                message:
+                    `Expected at least [${minContains}] items matching the contains schema, got [${matches}].`,
+            });
+        }
+
+        if (schema.maxContains !== undefined && matches > schema.maxContains) {
+            violations.push({
+                path,
+                keyword: 'maxContains',
+                expected: schema.maxContains,
+                message:
+                    `Expected at most [${schema.maxContains}] items matching the contains schema, got [${matches}].`,
+            });
+        }
+    }
+
+    // [prefixItems] validates the first items, [items] the following ones
+    const prefixItems = schema.prefixItems ?? [];
+
+    for (let i = 0; i < value.length; i++) {
+        const itemSchema = i < prefixItems.length
+            ? prefixItems[i]
+            : Array.isArray(schema.items)
+            ? schema.items[i]
+            : schema.items;
+
+        if (itemSchema !== undefined) {
+            validateNode(
+                itemSchema,
+                value[i],
+                `${path}/${i}`,
+                root,
+                violations,
+            );
+        }
+    }
+}
+
+function validateObject(
+    schema: JSONSchema,
+    value: Record<string, unknown>,
+    path: string,
+    root: JSONSchema,
+    violations: SchemaViolation[],
+): void {
+    for (const property of schema.required ?? []) {
+        if (!Object.hasOwn(value, property)) {
+            violations.push({
+                path: `${path}/${escapePointer(property)}`,
+                keyword: 'required',
+                expected: property,
+                message: `The property [${property}] is required.`,
+            });
+        }
+    }
+
+    for (
+        const [property, dependencies] of Object.entries(
+            schema.dependentRequired ?? {},
+        )
+    ) {
+        if (!Object.hasOwn(value, property)) {
+            continue;
+        }
+
+        for (const dependency of dependencies) {
+            if (!Object.hasOwn(value, dependency)) {
+                violations.push({
+                    path: `${path}/${escapePointer(dependency)}`,
+                    keyword: 'dependentRequired',
+                    expected: dependency,
+                    message:
+                        `The property [${dependency}] is required when [${property}] is present.`,
+                });
+            }
+        }
+    }
+
+    for (
+        const [property, subSchema] of Object.entries(
+            schema.dependentSchemas ?? {},
+        )
+    ) {
+        if (Object.hasOwn(value, property)) {
+            validateNode(subSchema, value, path, root, violations);
+        }
+    }
+
+    const propertyCount = Object.keys(value).length;
+
+    if (
+        schema.minProperties !== undefined &&
+        propertyCount < schema.minProperties
+    ) {
+        violations.push({
+            path,
+            keyword: 'minProperties',
+            expected: schema.minProperties,
+            message:
+                `Expected at least [${schema.minProperties}] properties, got [${propertyCount}].`,
+        });
+    }
+
+    if (
+        schema.maxProperties !== undefined &&
+        propertyCount > schema.maxProperties
+    ) {
+        violations.push({
+            path,
+            keyword: 'maxProperties',
+            expected: schema.maxProperties,
+            message:
+                `Expected at most [${schema.maxProperties}] properties, got [${propertyCount}].`,
+        });
+    }
+
+    const properties = schema.properties ?? {};
+    const patternProperties = Object.entries(schema.patternProperties ?? {})
+        .map(([pattern, subSchema]) =>
+            [new RegExp(pattern, 'u'), subSchema] as const
+        );
+
+    for (const property of Object.keys(value)) {
+        const propertyPath = `${path}/${escapePointer(property)}`;
+        let evaluated = false;
+
+        if (
+            schema.propertyNames !== undefined &&
+            !matchesSchema(schema.propertyNames, property, root)
+        ) {
+            violations.push({
+                path: propertyPath,
+                keyword: 'propertyNames',
+                message: `The property name [${property}] is not allowed.`,
+            });
+        }
+
+        if (Object.hasOwn(properties, property)) {
+            validateNode(
+                properties[property],
+                value[property],
+                propertyPath,
+                root,
+                violations,
+            );
+            evaluated = true;
+        }
+
+        for (const [pattern, subSchema] of patternProperties) {
+            if (pattern.test(property)) {
+                validateNode(
+                    subSchema,
+                    value[property],
+                    propertyPath,
+                    root,
+                    violations,
+                );
+                evaluated = true;
+            }
+        }
+
+        if (evaluated) {
+            continue;
+        }
+
+        if (schema.additionalProperties === false) {
+            violations.push({
+                path: propertyPath,
+                keyword: 'additionalProperties',
+                expected: Object.keys(properties),
+                message: `The property [${property}] is not allowed.`,
+            });
+        } else if (schema.additionalProperties !== undefined) {
+            validateNode(
+                schema.additionalProperties,
+                value[property],
+                propertyPath,
+                root,
+                violations,
+            );
+        }
+    }
+}
+
+function matchesSchema(
+    schema: _JSONSchema,
+    value: unknown,
+    root: JSONSchema,
+): boolean {
+    const violations: SchemaViolation[] = [];
+    validateNode(schema, value, '', root, violations);
+    return violations.length === 0;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+    switch (type) {
+        case 'null':
+            return value === null;
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return isObject(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'number':
+            return typeof value == 'number' && Number.isFinite(value);
+        case 'string':
+            return typeof value == 'string';
+        case 'boolean':
+            return typeof value == 'boolean';
+        default:
+            return false;
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value == 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Resolves a local reference like [#/$defs/Operation] against the root schema
+ */
+function resolveReference(reference: string, root: JSONSchema): _JSONSchema {
+    if (!reference.startsWith('#')) {
+        throw new Error(
+            `Schema reference [${reference}] is not supported, only local references are allowed.`,
+        );
+    }
+
+    let node: unknown = root;
+
+    for (const segment of reference.slice(1).split('/').slice(1)) {
+        node = (node as Record<string, unknown> | undefined)?.[
+            unescapePointer(decodeURIComponent(segment))
+        ];
+    }
+
+    if (node === undefined) {
+        throw new Error(`Schema reference [${reference}] can not be resolved.`);
+    }
+
+    return node as _JSONSchema;
+}
+
+/**
+ * Escapes a property name to be used as a JSON pointer segment
+ */
+export function escapePointer(segment: string): string {
+    return segment.replaceAll('~', '~0').replaceAll('/', '~1');
+}
+
+function unescapePointer(segment: string): string {
+    return segment.replaceAll('~1', '/').replaceAll('~0', '~');
+}
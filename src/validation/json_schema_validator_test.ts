@@ -0,0 +1,196 @@
+import { assert, assertEquals } from '@std/assert';
+import { JSONSchema } from '../types/index.ts';
+import { isValid, validateSchema } from './json_schema_validator.ts';
+
+/**
+ * Lists the violations as [path keyword] pairs to keep the assertions short
+ */
+function getViolations(schema: JSONSchema, value: unknown): string[] {
+    return validateSchema(schema, value).map((e) => `${e.path} ${e.keyword}`);
+}
+
+Deno.test('validates the type of the value', () => {
+    assertEquals(getViolations({ type: 'string' }, 1), [' type']);
+    assertEquals(getViolations({ type: 'integer' }, 1.5), [' type']);
+    assertEquals(getViolations({ type: 'integer' }, 2), []);
+    assertEquals(getViolations({ type: 'array' }, {}), [' type']);
+    assertEquals(getViolations({ type: 'object' }, []), [' type']);
+    assertEquals(getViolations({ type: 'object' }, null), [' type']);
+    assertEquals(getViolations({ type: 'null' }, null), []);
+});
+
+Deno.test('validates the required properties', () => {
+    const schema: JSONSchema = { type: 'object', required: ['name'] };
+
+    assertEquals(getViolations(schema, {}), ['/name required']);
+    assertEquals(getViolations(schema, { name: 'a' }), []);
+});
+
+Deno.test('validates enum and const', () => {
+    assertEquals(getViolations({ enum: ['a', 'b'] }, 'c'), [' enum']);
+    assertEquals(getViolations({ enum: ['a', 'b'] }, 'a'), []);
+    assertEquals(getViolations({ const: 'a' }, 'b'), [' const']);
+    assertEquals(getViolations({ const: 'a' }, 'a'), []);
+});
+
+Deno.test('validates the number bounds', () => {
+    assertEquals(getViolations({ minimum: 2 }, 1), [' minimum']);
+    assertEquals(getViolations({ maximum: 2 }, 3), [' maximum']);
+    assertEquals(getViolations({ minimum: 2, maximum: 2 }, 2), []);
+});
+
+Deno.test('validates the string length and pattern', () => {
+    assertEquals(getViolations({ minLength: 2 }, 'a'), [' minLength']);
+    assertEquals(getViolations({ maxLength: 2 }, 'abc'), [' maxLength']);
+    assertEquals(getViolations({ pattern: '^a+$' }, 'ab'), [' pattern']);
+    assertEquals(getViolations({ pattern: '^a+$' }, 'aa'), []);
+});
+
+Deno.test('validates the string formats', () => {
+    assertEquals(getViolations({ format: 'email' }, 'a@b'), [' format']);
+    assertEquals(getViolations({ format: 'email' }, 'a@b.c'), []);
+    assertEquals(getViolations({ format: 'date-time' }, '2024-01-01'), [
+        ' format',
+    ]);
+    assertEquals(
+        getViolations({ format: 'date-time' }, '2024-01-01T10:00:00Z'),
+        [],
+    );
+    assertEquals(getViolations({ format: 'date' }, '2023-02-31'), [' format']);
+    assertEquals(getViolations({ format: 'date' }, '2023-02-29'), [' format']);
+    assertEquals(getViolations({ format: 'date' }, '2024-02-29'), []);
+    assertEquals(getViolations({ format: 'date' }, '2024-13-01'), [' format']);
+    assertEquals(
+        getViolations({ format: 'date-time' }, '2024-04-31T10:00:00Z'),
+        [' format'],
+    );
+    assertEquals(getViolations({ format: 'uuid' }, 'abc'), [' format']);
+    assertEquals(getViolations({ format: 'unknown' }, 'abc'), []);
+});
+
+Deno.test('rejects the properties not declared', () => {
+    const schema: JSONSchema = {
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        additionalProperties: false,
+    };
+
+    assertEquals(getViolations(schema, { name: 'a', age: 1 }), [
+        '/age additionalProperties',
+    ]);
+    assertEquals(getViolations(schema, { name: 'a' }), []);
+});
+
+Deno.test('reports the path of nested objects and arrays', () => {
+    const schema: JSONSchema = {
+        type: 'object',
+        properties: {
+            users: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: { 'a/b': { type: 'string' } },
+                    required: ['a/b'],
+                },
+            },
+        },
+    };
+
+    assertEquals(getViolations(schema, { users: [{ 'a/b': 'a' }, {}] }), [
+        '/users/1/a~1b required',
+    ]);
+    assertEquals(getViolations(schema, { users: [{ 'a/b': 1 }] }), [
+        '/users/0/a~1b type',
+    ]);
+});
+
+Deno.test('returns the expected value of the violations', () => {
+    const [violation] = validateSchema({ minimum: 2 }, 1);
+
+    assertEquals(violation.expected, 2);
+    assert(!isValid({ minimum: 2 }, 1));
+    assert(isValid({ minimum: 2 }, 2));
+});
+
+Deno.test('does not match the inherited properties', () => {
+    const closed: JSONSchema = {
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        additionalProperties: false,
+    };
+
+    assertEquals(getViolations(closed, JSON.parse('{"constructor":1}')), [
+        '/constructor additionalProperties',
+    ]);
+    assertEquals(getViolations(closed, JSON.parse('{"hasOwnProperty":1}')), [
+        '/hasOwnProperty additionalProperties',
+    ]);
+    assertEquals(getViolations(closed, JSON.parse('{"__proto__":{}}')), [
+        '/__proto__ additionalProperties',
+    ]);
+    assertEquals(
+        getViolations({ type: 'object', required: ['toString'] }, {}),
+        ['/toString required'],
+    );
+});
+
+Deno.test('validates the not schema', () => {
+    assertEquals(getViolations({ not: { type: 'string' } }, 'a'), [' not']);
+    assertEquals(getViolations({ not: { type: 'string' } }, 1), []);
+});
+
+Deno.test('validates the items matching the contains schema', () => {
+    const schema: JSONSchema = {
+        type: 'array',
+        contains: { type: 'string' },
+        maxContains: 2,
+    };
+
+    assertEquals(getViolations(schema, [1, 2]), [' contains']);
+    assertEquals(getViolations(schema, [1, 'a']), []);
+    assertEquals(getViolations(schema, ['a', 'b', 'c']), [' maxContains']);
+    assertEquals(
+        getViolations({ contains: { type: 'string' }, minContains: 0 }, [1]),
+        [],
+    );
+});
+
+Deno.test('validates the prefix items before the items', () => {
+    const schema: JSONSchema = {
+        type: 'array',
+        prefixItems: [{ type: 'string' }, { type: 'number' }],
+        items: { type: 'boolean' },
+    };
+
+    assertEquals(getViolations(schema, ['a', 1, true]), []);
+    assertEquals(getViolations(schema, [1, 'a', 'b']), [
+        '/0 type',
+        '/1 type',
+        '/2 type',
+    ]);
+});
+
+Deno.test('validates the property names', () => {
+    const schema: JSONSchema = { propertyNames: { pattern: '^[a-z]+$' } };
+
+    assertEquals(getViolations(schema, { abc: 1 }), []);
+    assertEquals(getViolations(schema, { Abc: 1 }), ['/Abc propertyNames']);
+});
+
+Deno.test('validates the dependencies of the present properties', () => {
+    const schema: JSONSchema = {
+        type: 'object',
+        dependentRequired: { card: ['address'] },
+        dependentSchemas: { card: { required: ['cvc'] } },
+    };
+
+    assertEquals(getViolations(schema, {}), []);
+    assertEquals(getViolations(schema, { card: '1' }), [
+        '/address dependentRequired',
+        '/cvc required',
+    ]);
+    assertEquals(
+        getViolations(schema, { card: '1', address: 'a', cvc: 1 }),
+        [],
+    );
+});